@@ -0,0 +1,212 @@
+// Reference liveness verifier.
+//
+// Issues challenge sequences, checks submitted session results against them and
+// signs an HS256 JWT that relying parties can validate with the shared secret or
+// through the /introspect endpoint. Sessions are kept in memory, so this is meant
+// for local development and as a template for a real backend.
+//
+// Usage: LIVENESS_SECRET=... node server/verifier.mjs
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const SECRET = process.env.LIVENESS_SECRET ?? 'dev-only-secret';
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? '*';
+const ISSUER = 'face-sense-check-verifier';
+
+const SESSION_TTL_MS = 5 * 60 * 1000;
+const TOKEN_TTL_S = 10 * 60;
+const MAX_SPOOF_SCORE = 0.6;
+const MIN_POSE_STEP_MS = 300;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const CHALLENGE_POOL = ['straight', 'left', 'right', 'up', 'down'];
+const EXPRESSION_POOL = ['smile', 'open-mouth', 'raise-eyebrows', 'puff-cheeks'];
+const SEQUENCE_LENGTH = 3;
+
+if (!process.env.LIVENESS_SECRET) {
+  console.warn('LIVENESS_SECRET is not set; using an insecure development secret.');
+}
+
+/** @type {Map<string, { challenges: string[], expiresAt: number, used: boolean }>} */
+const sessions = new Map();
+
+const randomInt = max => randomBytes(4).readUInt32BE(0) % max;
+
+// Mirrors the client generator: no repeated steps, no leading 'straight', one blink at a random position
+// and, for clients that can track expressions, one expression at a random position
+const generateChallenges = ({ expressions = false } = {}) => {
+  const challenges = [];
+  let previous = 'straight';
+  for (let i = 0; i < SEQUENCE_LENGTH; i++) {
+    const candidates = CHALLENGE_POOL.filter(challenge => challenge !== previous);
+    previous = candidates[randomInt(candidates.length)];
+    challenges.push(previous);
+  }
+  challenges.splice(randomInt(challenges.length + 1), 0, 'blink');
+  if (expressions) {
+    challenges.splice(randomInt(challenges.length + 1), 0, EXPRESSION_POOL[randomInt(EXPRESSION_POOL.length)]);
+  }
+  return challenges;
+};
+
+const base64url = input => Buffer.from(input).toString('base64url');
+
+const sign = data => createHmac('sha256', SECRET).update(data).digest('base64url');
+
+const signToken = claims => {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+/** Returns the token's claims when the signature and expiry are valid, otherwise null */
+const verifyToken = token => {
+  const [header, payload, signature] = String(token).split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (claims.iss !== ISSUER || claims.exp * 1000 < Date.now()) return null;
+  return claims;
+};
+
+const isPlainObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Checks a submitted result against the issued session; returns the reasons it is rejected */
+const validateResult = (result, session) => {
+  const problems = [];
+  const now = Date.now();
+
+  if (result?.version !== 1) problems.push('Unsupported result version');
+  if (JSON.stringify(result.challenges) !== JSON.stringify(session.challenges)) {
+    problems.push('Challenges do not match the issued sequence');
+  }
+  if (!result.passed) problems.push('Session did not pass on the client');
+
+  const steps = Array.isArray(result.steps) ? result.steps.filter(isPlainObject) : [];
+  if (steps.length !== session.challenges.length || steps.some(step => !step.passed)) {
+    problems.push('Not every challenge step was completed');
+  }
+  steps.forEach((step, index) => {
+    if (step.challenge !== session.challenges[index]) problems.push(`Step ${index + 1} does not match its challenge`);
+    if (step.completedAt < step.startedAt || step.completedAt > now + CLOCK_SKEW_MS) problems.push(`Step ${index + 1} has invalid timings`);
+    if (step.challenge !== 'blink' && step.completedAt - step.startedAt < MIN_POSE_STEP_MS) {
+      problems.push(`Step ${index + 1} completed implausibly fast`);
+    }
+    if (index > 0 && step.startedAt < steps[index - 1].completedAt) problems.push(`Step ${index + 1} overlaps the previous step`);
+  });
+
+  if (typeof result.spoof?.score !== 'number') problems.push('Missing spoof score');
+  else if (result.spoof.score > MAX_SPOOF_SCORE) problems.push('Spoof score above threshold');
+
+  if (!/^[0-9a-f]{64}$/.test(result.bestFrameHash ?? '')) problems.push('Missing best-frame hash');
+
+  return problems;
+};
+
+// Resolves with the parsed body, which must be a JSON object; anything else is rejected
+const readJson = req =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > 1_000_000) reject(new Error('Payload too large'));
+    });
+    req.on('end', () => {
+      try {
+        const parsed = body ? JSON.parse(body) : {};
+        if (isPlainObject(parsed)) resolve(parsed);
+        else reject(new Error('Expected a JSON object'));
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const routes = {
+  'POST /api/liveness/sessions': async req => {
+    const { expressions } = await readJson(req);
+    const sessionId = randomUUID();
+    const session = { challenges: generateChallenges({ expressions: expressions === true }), expiresAt: Date.now() + SESSION_TTL_MS, used: false };
+    sessions.set(sessionId, session);
+    return [200, { sessionId, challenges: session.challenges, expiresAt: session.expiresAt }];
+  },
+
+  'POST /api/liveness/verify': async req => {
+    const result = await readJson(req);
+    const session = sessions.get(result.sessionId);
+
+    if (!session) return [404, { error: 'Unknown session' }];
+    if (session.used) return [409, { error: 'Session already verified' }];
+    if (session.expiresAt < Date.now()) return [410, { error: 'Session expired' }];
+
+    // A session can only be submitted once, whether or not it passes
+    session.used = true;
+
+    const problems = validateResult(result, session);
+    if (problems.length > 0) return [422, { error: problems.join('; '), problems }];
+
+    const iat = Math.floor(Date.now() / 1000);
+    const claims = {
+      iss: ISSUER,
+      sub: result.sessionId,
+      iat,
+      exp: iat + TOKEN_TTL_S,
+      passed: true,
+      challenges: session.challenges,
+      spoofScore: result.spoof.score,
+      blinkCount: result.blinkCount,
+      bestFrameHash: result.bestFrameHash,
+    };
+    return [200, { token: signToken(claims), expiresAt: claims.exp * 1000 }];
+  },
+
+  'POST /api/liveness/introspect': async req => {
+    const { token } = await readJson(req);
+    const claims = verifyToken(token);
+    return [200, claims ? { active: true, claims } : { active: false }];
+  },
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const route = routes[`${req.method} ${req.url?.split('?')[0]}`];
+  if (!route) return send(res, 404, { error: 'Not found' });
+
+  try {
+    const [status, payload] = await route(req);
+    send(res, status, payload);
+  } catch {
+    // Internal messages stay on the server
+    send(res, 400, { error: 'Invalid request' });
+  }
+});
+
+// Drop expired sessions so memory stays bounded
+setInterval(() => {
+  const now = Date.now();
+  sessions.forEach((session, id) => {
+    if (session.expiresAt < now) sessions.delete(id);
+  });
+}, SESSION_TTL_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`Liveness verifier listening on http://localhost:${PORT}`);
+});
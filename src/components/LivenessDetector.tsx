@@ -1,205 +1,125 @@
-import { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Camera as CameraIcon, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react';
-
-type FaceOrientation = 'straight' | 'left' | 'right' | 'none';
-
-interface Detection {
-  orientation: FaceOrientation;
-  confidence: number;
-  timestamp: number;
-}
-
-// Declare global MediaPipe types
-declare global {
-  interface Window {
-    FaceDetection: any;
-    Camera: any;
-  }
-}
+import { Camera as CameraIcon, CheckCircle, AlertCircle, RotateCcw, RotateCw, ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
+import CalibrationPanel from '@/components/liveness/CalibrationPanel';
+import CameraErrorScreen from '@/components/liveness/CameraErrorScreen';
+import CameraPicker from '@/components/liveness/CameraPicker';
+import ExpressionHint from '@/components/liveness/ExpressionHint';
+import LifecycleControls from '@/components/liveness/LifecycleControls';
+import LivenessWizard from '@/components/liveness/LivenessWizard';
+import PerformancePanel from '@/components/liveness/PerformancePanel';
+import QualityPanel from '@/components/liveness/QualityPanel';
+import SettingsSheet from '@/components/liveness/SettingsSheet';
+import SourceControls from '@/components/liveness/SourceControls';
+import SpoofPanel from '@/components/liveness/SpoofPanel';
+import VerificationPanel from '@/components/liveness/VerificationPanel';
+import { useLiveness } from '@/hooks/use-liveness';
+import { useLivenessFlow } from '@/hooks/use-liveness-flow';
+import { CALIBRATION_LABELS } from '@/lib/liveness/calibration';
+import { CHALLENGE_LABELS, isExpressionChallenge } from '@/lib/liveness/challenges';
+import { EXPRESSIONS } from '@/lib/liveness/expressions';
+import { toPreviewOrientation } from '@/lib/liveness/mirror';
+import type { FaceOrientation, HeadPose } from '@/lib/liveness/types';
 
 const LivenessDetector = () => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const faceDetectionRef = useRef<any>(null);
-  const cameraRef = useRef<any>(null);
-  
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [currentOrientation, setCurrentOrientation] = useState<FaceOrientation>('none');
-  const [confidence, setConfidence] = useState(0);
-  const [isDetecting, setIsDetecting] = useState(false);
-  const [detectionHistory, setDetectionHistory] = useState<Detection[]>([]);
-  const [error, setError] = useState<string | null>(null);
-
-  const initializeMediaPipe = async () => {
-    try {
-      setError(null);
-      
-      console.log('Initializing MediaPipe...');
-      
-      // Wait for MediaPipe to be available globally
-      if (!window.FaceDetection || !window.Camera) {
-        throw new Error('MediaPipe libraries not loaded. Please refresh the page.');
-      }
-      
-      const faceDetection = new window.FaceDetection({
-        locateFile: (file: string) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/face_detection@0.4.1646425229/${file}`;
-        }
-      });
-
-      faceDetection.setOptions({
-        model: 'short',
-        minDetectionConfidence: 0.5,
-      });
-
-      faceDetection.onResults((results: any) => {
-        onResults(results);
-      });
-
-      faceDetectionRef.current = faceDetection;
-
-      if (videoRef.current) {
-        const camera = new window.Camera(videoRef.current, {
-          onFrame: async () => {
-            if (faceDetectionRef.current && videoRef.current) {
-              await faceDetectionRef.current.send({ image: videoRef.current });
-            }
-          },
-          width: 640,
-          height: 480
-        });
-
-        cameraRef.current = camera;
-        await camera.start();
-        setIsInitialized(true);
-        setIsDetecting(true);
-        console.log('MediaPipe initialized successfully');
-      }
-    } catch (err) {
-      console.error('Error initializing MediaPipe:', err);
-      setError(`Failed to initialize camera and face detection: ${err instanceof Error ? err.message : 'Unknown error'}. Please check your camera permissions and try again.`);
-    }
-  };
-
-  const onResults = (results: any) => {
-    if (!canvasRef.current) return;
+  const {
+    engine,
+    videoRef,
+    canvasRef,
+    isInitialized,
+    isDetecting,
+    isPaused,
+    currentOrientation,
+    currentPose,
+    raw,
+    confidence,
+    faceCount,
+    multipleFaces,
+    blinkState,
+    expressions,
+    spoofAssessment,
+    quality,
+    framing,
+    metrics,
+    debugOverlay,
+    setDebugOverlay,
+    powerSaving,
+    setPowerSaving,
+    detectionHistory,
+    error,
+    cameraPermission,
+    retry,
+    start,
+    pause,
+    resume,
+    stop,
+    sourceKind,
+    stepMode,
+    loadFiles,
+    switchToCamera,
+    stepFrame,
+    status,
+    cameraPreferences,
+    setCameraPreferences,
+    settings,
+    setSettings,
+    resetDetection,
+    sessionState,
+    startSession,
+    cancelSession,
+    verification,
+    calibration,
+  } = useLiveness({ autoStart: false });
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw video frame
-    if (videoRef.current) {
-      ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-    }
-
-    if (results.detections && results.detections.length > 0) {
-      const detection = results.detections[0];
-      const landmarks = detection.landmarks;
-      
-      if (landmarks && landmarks.length >= 6) {
-        // Calculate face orientation based on key landmarks
-        const nose = landmarks[2]; // Nose tip
-        const leftEye = landmarks[0]; // Left eye
-        const rightEye = landmarks[1]; // Right eye
-        
-        // Ensure all required landmarks exist
-        if (nose && leftEye && rightEye && nose.x !== undefined && leftEye.x !== undefined && rightEye.x !== undefined) {
-          // Calculate horizontal position of nose relative to eye center
-          const eyeCenter = (leftEye.x + rightEye.x) / 2;
-          const noseX = nose.x;
-          
-          // Determine orientation based on nose position relative to eye center
-          let orientation: FaceOrientation = 'straight';
-          const threshold = 0.02; // Sensitivity threshold
-          
-          if (noseX < eyeCenter - threshold) {
-            orientation = 'right'; // Person's right (our left when looking at them)
-          } else if (noseX > eyeCenter + threshold) {
-            orientation = 'left'; // Person's left (our right when looking at them)
-          }
-          
-          const detectionConfidence = (detection.score && detection.score[0]) ? detection.score[0] : 0;
-        
-          setCurrentOrientation(orientation);
-          setConfidence(detectionConfidence);
-        
-          // Add to detection history
-          const newDetection: Detection = {
-            orientation,
-            confidence: detectionConfidence,
-            timestamp: Date.now()
-          };
-          
-          setDetectionHistory(prev => [...prev.slice(-9), newDetection]);
-          
-          // Draw face detection box
-          const bbox = detection.boundingBox;
-          if (bbox) {
-            ctx.strokeStyle = orientation === 'straight' ? '#10b981' : '#3b82f6';
-            ctx.lineWidth = 3;
-            ctx.strokeRect(
-              bbox.xCenter * canvas.width - (bbox.width * canvas.width) / 2,
-              bbox.yCenter * canvas.height - (bbox.height * canvas.height) / 2,
-              bbox.width * canvas.width,
-              bbox.height * canvas.height
-            );
-          }
-          
-          // Draw landmarks
-          ctx.fillStyle = '#ef4444';
-          landmarks.forEach((landmark: any) => {
-            ctx.beginPath();
-            ctx.arc(landmark.x * canvas.width, landmark.y * canvas.height, 3, 0, 2 * Math.PI);
-            ctx.fill();
-          });
-        }
-      }
-    } else {
-      setCurrentOrientation('none');
-      setConfidence(0);
-    }
-  };
-
-  const resetDetection = () => {
-    setDetectionHistory([]);
-    setCurrentOrientation('none');
-    setConfidence(0);
-  };
+  const isCalibrating = calibration.state?.status === 'running';
+  // The camera only starts once the user has consented in the wizard
+  const flow = useLivenessFlow({
+    engine,
+    status,
+    error,
+    session: sessionState,
+    isCalibrating,
+    startCamera: start,
+    startSession,
+    cancelSession,
+  });
+  const currentChallenge = sessionState ? sessionState.challenges[sessionState.currentIndex] ?? null : null;
+  const activeExpressions = expressions ? EXPRESSIONS.filter(expression => expressions[expression].active) : [];
 
   const getOrientationColor = (orientation: FaceOrientation) => {
     switch (orientation) {
       case 'straight': return 'bg-success';
-      case 'left': return 'bg-primary';
-      case 'right': return 'bg-primary';
-      default: return 'bg-muted';
+      case 'none': return 'bg-muted';
+      default: return 'bg-primary';
     }
   };
 
+  // Icons point the way the face moves in the preview, which depends on mirroring
   const getOrientationIcon = (orientation: FaceOrientation) => {
-    switch (orientation) {
+    switch (toPreviewOrientation(orientation, settings.mirrorPreview)) {
       case 'straight': return <CheckCircle className="w-4 h-4" />;
-      case 'left': return <RotateCcw className="w-4 h-4 rotate-90" />;
-      case 'right': return <RotateCcw className="w-4 h-4 -rotate-90" />;
+      case 'left': return <ArrowLeft className="w-4 h-4" />;
+      case 'right': return <ArrowRight className="w-4 h-4" />;
+      case 'up': return <ArrowUp className="w-4 h-4" />;
+      case 'down': return <ArrowDown className="w-4 h-4" />;
+      case 'tilt-left': return <RotateCcw className="w-4 h-4" />;
+      case 'tilt-right': return <RotateCw className="w-4 h-4" />;
       default: return <AlertCircle className="w-4 h-4" />;
     }
   };
 
-  useEffect(() => {
-    initializeMediaPipe();
-    
-    return () => {
-      if (cameraRef.current) {
-        cameraRef.current.stop();
-      }
-    };
-  }, []);
+  const getOrientationLabel = (orientation: FaceOrientation) => {
+    switch (orientation) {
+      case 'none': return 'No Face';
+      case 'tilt-left': return 'Tilting left';
+      case 'tilt-right': return 'Tilting right';
+      default: return `Looking ${orientation}`;
+    }
+  };
+
+  const formatAngle = (pose: HeadPose | null, axis: keyof HeadPose) =>
+    pose ? `${pose[axis] >= 0 ? '+' : ''}${pose[axis].toFixed(1)}°` : '—';
 
   return (
     <div className="min-h-screen bg-background p-4">
@@ -210,7 +130,7 @@ const LivenessDetector = () => {
             Real-Time Liveness Detection
           </h1>
           <p className="text-muted-foreground">
-            Look straight, left, or right to test face orientation detection
+            Turn, nod or tilt your head to test head pose detection
           </p>
         </div>
 
@@ -222,24 +142,50 @@ const LivenessDetector = () => {
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-semibold flex items-center gap-2">
                   <CameraIcon className="w-5 h-5" />
-                  Live Camera Feed
+                  {sourceKind === 'camera' ? 'Live Camera Feed' : 'Recorded Input'}
                 </h2>
-                <Badge 
-                  variant={isDetecting ? "default" : "destructive"}
-                  className={isDetecting ? "animate-pulse-glow" : ""}
-                >
-                  {isDetecting ? "Detecting" : "Stopped"}
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <SettingsSheet settings={settings} onChange={setSettings} />
+                  <Badge 
+                    variant={isDetecting ? "default" : isPaused || status === 'starting' ? "secondary" : "destructive"}
+                    className={isDetecting ? "animate-pulse-glow" : ""}
+                  >
+                    {isDetecting ? "Detecting" : isPaused ? "Paused" : status === 'starting' ? "Starting" : "Stopped"}
+                  </Badge>
+                </div>
               </div>
+
+              <CameraPicker
+                preferences={cameraPreferences}
+                onChange={setCameraPreferences}
+                refreshKey={status}
+                disabled={sourceKind !== 'camera' || flow.state.step === 'intro'}
+              />
+
+              <LifecycleControls
+                status={status}
+                onStart={start}
+                onPause={pause}
+                onResume={resume}
+                onStop={stop}
+              />
+
+              <SourceControls
+                sourceKind={sourceKind}
+                stepMode={stepMode}
+                onLoadFiles={loadFiles}
+                onUseCamera={switchToCamera}
+                onStep={stepFrame}
+              />
               
+              {status === 'starting' && sourceKind === 'camera' && cameraPermission === 'prompt' && (
+                <p className="text-sm text-muted-foreground">
+                  Your browser will ask for access to the camera. Choose "Allow" to start the liveness check.
+                </p>
+              )}
+
               {error ? (
-                <div className="flex flex-col items-center justify-center h-96 space-y-4">
-                  <AlertCircle className="w-12 h-12 text-destructive" />
-                  <p className="text-destructive text-center">{error}</p>
-                  <Button onClick={initializeMediaPipe} variant="outline">
-                    Retry Camera Access
-                  </Button>
-                </div>
+                <CameraErrorScreen error={error} onRetry={sourceKind === 'camera' ? retry : switchToCamera} />
               ) : (
                 <div className="relative">
                   <video
@@ -251,21 +197,60 @@ const LivenessDetector = () => {
                   />
                   <canvas
                     ref={canvasRef}
-                    width={640}
-                    height={480}
+                    width={settings.canvasWidth}
+                    height={settings.canvasHeight}
                     className="w-full h-auto rounded-lg border border-border shadow-lg"
                   />
                   
                   {/* Overlay Status */}
                   <div className="absolute top-4 left-4">
-                    <Badge 
-                      className={`${getOrientationColor(currentOrientation)} text-white flex items-center gap-2 animate-fade-in`}
-                    >
-                      {getOrientationIcon(currentOrientation)}
-                      {currentOrientation === 'none' ? 'No Face' : `Looking ${currentOrientation}`}
-                    </Badge>
+                    {quality && !quality.ok && quality.guidance ? (
+                      <Badge className="bg-warning text-white flex items-center gap-2 animate-fade-in">
+                        <AlertCircle className="w-4 h-4" />
+                        {quality.guidance}
+                      </Badge>
+                    ) : (
+                      <Badge 
+                        className={`${getOrientationColor(currentOrientation)} text-white flex items-center gap-2 animate-fade-in`}
+                      >
+                        {getOrientationIcon(currentOrientation)}
+                        {getOrientationLabel(currentOrientation)}
+                      </Badge>
+                    )}
                   </div>
                   
+                  {/* Countdown */}
+                  {flow.state.step === 'countdown' && (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <span className="text-7xl font-bold text-white drop-shadow-lg tabular-nums animate-fade-in" key={flow.state.countdown}>
+                        {flow.state.countdown}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Current Challenge */}
+                  {sessionState?.status === 'running' && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+                      <Badge className="bg-background/80 text-foreground backdrop-blur-sm text-base px-4 py-1 flex items-center gap-2">
+                        {!sessionState.qualityIssue && isExpressionChallenge(currentChallenge) && (
+                          <ExpressionHint expression={currentChallenge} />
+                        )}
+                        {sessionState.qualityIssue
+                          ? `Paused — ${sessionState.qualityIssue}`
+                          : currentChallenge && CHALLENGE_LABELS[currentChallenge]}
+                      </Badge>
+                    </div>
+                  )}
+
+                  {/* Current Calibration Step */}
+                  {isCalibrating && calibration.state?.step && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+                      <Badge className="bg-background/80 text-foreground backdrop-blur-sm text-base px-4 py-1">
+                        {CALIBRATION_LABELS[calibration.state.step]}
+                      </Badge>
+                    </div>
+                  )}
+
                   {/* Confidence Score */}
                   {confidence > 0 && (
                     <div className="absolute top-4 right-4">
@@ -281,6 +266,27 @@ const LivenessDetector = () => {
 
           {/* Detection Status Panel */}
           <div className="space-y-4">
+            {/* Guided Check */}
+            <LivenessWizard
+              flow={flow}
+              session={sessionState}
+              quality={quality}
+              framing={framing}
+              faceCount={faceCount}
+              multipleFaces={multipleFaces}
+              error={error}
+              expressionsAvailable={settings.backend === 'face-mesh'}
+            />
+
+            {/* Verification */}
+            <VerificationPanel verification={verification} onConfirm={verification.confirm} onRetake={flow.retry} />
+
+            {/* Calibration */}
+            <CalibrationPanel
+              controls={calibration}
+              disabled={!isInitialized || !!error || flow.state.step === 'countdown' || flow.state.step === 'challenges'}
+            />
+
             {/* Current Status */}
             <Card className="p-4 space-y-4">
               <h3 className="font-semibold">Detection Status</h3>
@@ -288,11 +294,33 @@ const LivenessDetector = () => {
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Current Orientation:</span>
-                  <Badge className={getOrientationColor(currentOrientation)}>
-                    {currentOrientation === 'none' ? 'No Face' : currentOrientation}
+                  <Badge className={multipleFaces ? 'bg-warning' : getOrientationColor(currentOrientation)}>
+                    {multipleFaces ? 'Multiple Faces' : currentOrientation === 'none' ? 'No Face' : currentOrientation}
                   </Badge>
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Raw Orientation:</span>
+                  <span className="text-sm font-mono">{raw?.orientation ?? 'none'}</span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Faces in view:</span>
+                  <span className={`text-sm font-mono ${faceCount > 1 ? 'text-warning' : ''}`}>
+                    {faceCount}
+                  </span>
+                </div>
                 
+                {(['yaw', 'pitch', 'roll'] as const).map(axis => (
+                  <div key={axis} className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground capitalize">{axis}:</span>
+                    <span className="text-sm font-mono">
+                      {formatAngle(currentPose, axis)}
+                      <span className="text-muted-foreground"> (raw {formatAngle(raw?.pose ?? null, axis)})</span>
+                    </span>
+                  </div>
+                ))}
+
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Confidence:</span>
                   <span className="text-sm font-mono">
@@ -300,6 +328,27 @@ const LivenessDetector = () => {
                   </span>
                 </div>
                 
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Eyes:</span>
+                  <Badge variant={blinkState?.eyesClosed ? 'default' : 'outline'}>
+                    {blinkState?.openness == null ? 'Unknown' : blinkState.eyesClosed ? 'Closed' : 'Open'}
+                  </Badge>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Blinks:</span>
+                  <span className="text-sm font-mono">
+                    {blinkState?.blinkCount ?? 0}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Expression:</span>
+                  <span className="text-sm font-mono">
+                    {!expressions ? 'Unavailable' : activeExpressions.length > 0 ? activeExpressions.join(', ') : 'neutral'}
+                  </span>
+                </div>
+
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Detections:</span>
                   <span className="text-sm font-mono">
@@ -308,16 +357,41 @@ const LivenessDetector = () => {
                 </div>
               </div>
               
-              <Button 
-                onClick={resetDetection} 
-                variant="outline" 
-                size="sm" 
-                className="w-full"
-              >
-                Reset History
-              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button 
+                  onClick={resetDetection} 
+                  variant="outline" 
+                  size="sm" 
+                >
+                  Reset History
+                </Button>
+                <Button
+                  onClick={calibration.reset}
+                  variant="outline"
+                  size="sm"
+                  disabled={!calibration.calibration && !calibration.state}
+                >
+                  Reset Calibration
+                </Button>
+              </div>
             </Card>
 
+            {/* Image Quality */}
+            <QualityPanel quality={quality} />
+
+            {/* Spoof Analysis */}
+            <SpoofPanel assessment={spoofAssessment} />
+
+            {/* Performance */}
+            <PerformancePanel
+              metrics={metrics}
+              debugOverlay={debugOverlay}
+              onDebugOverlayChange={setDebugOverlay}
+              powerSaving={powerSaving}
+              onPowerSavingChange={setPowerSaving}
+              getMetrics={() => engine.getMetrics()}
+            />
+
             {/* Detection History */}
             <Card className="p-4 space-y-4">
               <h3 className="font-semibold">Recent Detections</h3>
@@ -333,7 +407,8 @@ const LivenessDetector = () => {
                       <span className="capitalize">{detection.orientation}</span>
                     </div>
                     <span className="text-xs text-muted-foreground font-mono">
-                      {(detection.confidence * 100).toFixed(0)}%
+                      {formatAngle(detection.pose, 'yaw')} / {formatAngle(detection.pose, 'pitch')} · {(detection.confidence * 100).toFixed(0)}%
+                      {detection.faceCount > 1 && ` · ${detection.faceCount} faces`}
                     </span>
                   </div>
                 ))}
@@ -345,26 +420,6 @@ const LivenessDetector = () => {
                 )}
               </div>
             </Card>
-
-            {/* Instructions */}
-            <Card className="p-4 space-y-3">
-              <h3 className="font-semibold">Instructions</h3>
-              
-              <div className="space-y-2 text-sm text-muted-foreground">
-                <div className="flex items-center gap-2">
-                  <CheckCircle className="w-4 h-4 text-success" />
-                  <span>Look straight ahead</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <RotateCcw className="w-4 h-4 text-primary rotate-90" />
-                  <span>Turn your head left</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <RotateCcw className="w-4 h-4 text-primary -rotate-90" />
-                  <span>Turn your head right</span>
-                </div>
-              </div>
-            </Card>
           </div>
         </div>
       </div>
@@ -0,0 +1,85 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Crosshair } from 'lucide-react';
+import type { PoseCalibrationControls } from '@/hooks/use-pose-calibration';
+import { CALIBRATION_LABELS, CALIBRATION_STEPS } from '@/lib/liveness/calibration';
+
+interface CalibrationPanelProps {
+  controls: PoseCalibrationControls;
+  disabled?: boolean;
+}
+
+const formatDegrees = (value: number) => `${value.toFixed(0)}°`;
+
+const CalibrationPanel = ({ controls, disabled }: CalibrationPanelProps) => {
+  const { calibration, state, start, cancel } = controls;
+  const isRunning = state?.status === 'running';
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Calibration</h3>
+        <Badge variant={calibration ? 'default' : 'outline'}>
+          {calibration ? 'Calibrated' : 'Default thresholds'}
+        </Badge>
+      </div>
+
+      {isRunning && state.step && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Crosshair className="w-4 h-4 text-primary" />
+            <span>{CALIBRATION_LABELS[state.step]}</span>
+          </div>
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Step {CALIBRATION_STEPS.indexOf(state.step) + 1} of {CALIBRATION_STEPS.length}</span>
+            {state.hint && <span className="text-warning">{state.hint}</span>}
+          </div>
+          <Progress value={state.progress * 100} className="h-2" />
+        </div>
+      )}
+
+      {!isRunning && calibration && (
+        <div className="space-y-1 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Neutral yaw / pitch:</span>
+            <span className="font-mono text-xs">
+              {formatDegrees(calibration.neutral.yaw)} / {formatDegrees(calibration.neutral.pitch)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Range left / right:</span>
+            <span className="font-mono text-xs">
+              {formatDegrees(calibration.range.left)} / {formatDegrees(calibration.range.right)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Range up / down:</span>
+            <span className="font-mono text-xs">
+              {formatDegrees(calibration.range.up)} / {formatDegrees(calibration.range.down)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {!isRunning && !calibration && (
+        <p className="text-sm text-muted-foreground">
+          Calibrate to adapt the orientation thresholds to your neutral pose and range of motion.
+        </p>
+      )}
+
+      {isRunning ? (
+        <Button onClick={cancel} variant="outline" size="sm" className="w-full">
+          Cancel Calibration
+        </Button>
+      ) : (
+        <Button onClick={start} variant="outline" size="sm" className="w-full" disabled={disabled}>
+          {calibration ? 'Recalibrate' : 'Calibrate'}
+        </Button>
+      )}
+    </Card>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CameraOff, Cpu, Lock, RefreshCw, VideoOff } from 'lucide-react';
+import { getErrorGuidance, type LivenessError, type LivenessErrorCode } from '@/lib/liveness/errors';
+
+interface CameraErrorScreenProps {
+  error: LivenessError;
+  onRetry: () => void;
+}
+
+const ERROR_ICONS: Partial<Record<LivenessErrorCode, typeof AlertCircle>> = {
+  'permission-denied': Lock,
+  'no-camera': CameraOff,
+  'camera-in-use': VideoOff,
+  'insecure-context': Lock,
+  'model-load-failed': Cpu,
+  'wasm-unsupported': Cpu,
+};
+
+const CameraErrorScreen = ({ error, onRetry }: CameraErrorScreenProps) => {
+  const guidance = getErrorGuidance(error.code);
+  const Icon = ERROR_ICONS[error.code] ?? AlertCircle;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-96 py-8 space-y-4">
+      <Icon className="w-12 h-12 text-destructive" />
+      <div className="text-center space-y-1">
+        <h3 className="text-lg font-semibold">{guidance.title}</h3>
+        <p className="text-sm text-muted-foreground max-w-md">{guidance.description}</p>
+      </div>
+
+      <ol className="list-decimal list-inside space-y-1 text-sm max-w-md">
+        {guidance.steps.map(step => <li key={step}>{step}</li>)}
+      </ol>
+
+      {error.code === 'permission-denied' && (
+        <p className="text-xs text-muted-foreground">The camera restarts automatically once access is allowed.</p>
+      )}
+
+      {error.retryable && (
+        <Button onClick={onRetry} variant="outline">
+          <RefreshCw className="w-4 h-4" />
+          {error.code === 'file-load-failed' ? 'Back to Camera' : 'Try Again'}
+        </Button>
+      )}
+
+      <p className="text-xs text-muted-foreground font-mono">{error.message}</p>
+    </div>
+  );
+};
+
+export default CameraErrorScreen;
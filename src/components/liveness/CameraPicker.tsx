@@ -0,0 +1,81 @@
+import { useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SwitchCamera } from 'lucide-react';
+import { useCameraDevices } from '@/hooks/use-camera-devices';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { RESOLUTION_PRESETS, type CameraPreferences, type ResolutionPreset } from '@/lib/liveness/devices';
+
+interface CameraPickerProps {
+  preferences: CameraPreferences;
+  onChange: (preferences: CameraPreferences) => void;
+  // Changes when the camera (re)starts, so device labels are re-read after permission is granted
+  refreshKey?: unknown;
+  disabled?: boolean;
+}
+
+const DEFAULT_DEVICE = 'default';
+
+const CameraPicker = ({ preferences, onChange, refreshKey, disabled }: CameraPickerProps) => {
+  const isMobile = useIsMobile();
+  const handleDeviceLost = useCallback(() => {
+    onChange({ ...preferences, deviceId: null });
+  }, [onChange, preferences]);
+  const { devices } = useCameraDevices(preferences.deviceId, handleDeviceLost, refreshKey);
+
+  const switchFacingMode = () => {
+    onChange({
+      ...preferences,
+      deviceId: null,
+      facingMode: preferences.facingMode === 'user' ? 'environment' : 'user',
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select
+        value={preferences.deviceId ?? DEFAULT_DEVICE}
+        onValueChange={value => onChange({ ...preferences, deviceId: value === DEFAULT_DEVICE ? null : value })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Camera" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>Default camera</SelectItem>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `Camera ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={preferences.resolution}
+        onValueChange={value => onChange({ ...preferences, resolution: value as ResolutionPreset })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Resolution" />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map(preset => (
+            <SelectItem key={preset} value={preset}>
+              {RESOLUTION_PRESETS[preset].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {(isMobile || devices.length > 1) && (
+        <Button onClick={switchFacingMode} variant="outline" size="sm" disabled={disabled}>
+          <SwitchCamera className="w-4 h-4" />
+          {preferences.facingMode === 'user' ? 'Back camera' : 'Front camera'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default CameraPicker;
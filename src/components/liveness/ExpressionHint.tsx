@@ -0,0 +1,66 @@
+import type { Expression } from '@/lib/liveness/expressions';
+
+interface ExpressionHintProps {
+  expression: Expression;
+  className?: string;
+}
+
+// Every hint loops neutral → expression → hold → neutral
+const ANIMATION = { dur: '1.6s', repeatCount: 'indefinite', keyTimes: '0;0.35;0.65;1' };
+const loop = (from: string, to: string) => `${from};${to};${to};${from}`;
+
+const NEUTRAL_MOUTH = 'M15 27 Q20 27 25 27';
+
+/** Small line-art face that acts out an expression challenge */
+const ExpressionHint = ({ expression, className = 'w-6 h-6' }: ExpressionHintProps) => (
+  <svg
+    viewBox="0 0 40 40"
+    className={className}
+    fill="none"
+    stroke="currentColor"
+    strokeWidth={2}
+    strokeLinecap="round"
+    aria-hidden="true"
+  >
+    <ellipse cx={20} cy={20} rx={16} ry={17}>
+      {expression === 'puff-cheeks' && <animate attributeName="rx" values={loop('16', '18.5')} {...ANIMATION} />}
+    </ellipse>
+
+    <circle cx={14} cy={17} r={1.2} fill="currentColor" stroke="none" />
+    <circle cx={26} cy={17} r={1.2} fill="currentColor" stroke="none" />
+
+    <g>
+      <path d="M11 12 L16 12 M24 12 L29 12" />
+      {expression === 'raise-eyebrows' && (
+        <animateTransform attributeName="transform" type="translate" values={loop('0 0', '0 -3.5')} {...ANIMATION} />
+      )}
+    </g>
+
+    {expression === 'smile' && (
+      <path d={NEUTRAL_MOUTH}>
+        <animate attributeName="d" values={loop(NEUTRAL_MOUTH, 'M12 25 Q20 33 28 25')} {...ANIMATION} />
+      </path>
+    )}
+
+    {expression === 'open-mouth' && (
+      <ellipse cx={20} cy={27} rx={4} ry={0.5}>
+        <animate attributeName="ry" values={loop('0.5', '4.5')} {...ANIMATION} />
+      </ellipse>
+    )}
+
+    {expression === 'raise-eyebrows' && <path d={NEUTRAL_MOUTH} />}
+
+    {expression === 'puff-cheeks' && (
+      <>
+        <path d="M17 27 L23 27" />
+        {[11, 29].map(cx => (
+          <circle key={cx} cx={cx} cy={24} r={0} strokeWidth={1.5}>
+            <animate attributeName="r" values={loop('0', '3.5')} {...ANIMATION} />
+          </circle>
+        ))}
+      </>
+    )}
+  </svg>
+);
+
+export default ExpressionHint;
@@ -0,0 +1,45 @@
+import { Button } from '@/components/ui/button';
+import { Pause, Play, Square } from 'lucide-react';
+import type { LivenessEngineStatus } from '@/lib/liveness/engine';
+
+interface LifecycleControlsProps {
+  status: LivenessEngineStatus;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+const LifecycleControls = ({ status, onStart, onPause, onResume, onStop }: LifecycleControlsProps) => {
+  const isStopped = status === 'stopped' || status === 'error';
+
+  return (
+    <div className="flex items-center gap-2">
+      {status === 'paused' ? (
+        <Button onClick={onResume} variant="outline" size="sm">
+          <Play className="w-4 h-4" />
+          Resume
+        </Button>
+      ) : (
+        <Button onClick={onPause} variant="outline" size="sm" disabled={status !== 'running'}>
+          <Pause className="w-4 h-4" />
+          Pause
+        </Button>
+      )}
+
+      {isStopped ? (
+        <Button onClick={onStart} variant="outline" size="sm">
+          <Play className="w-4 h-4" />
+          Start
+        </Button>
+      ) : (
+        <Button onClick={onStop} variant="outline" size="sm" disabled={status === 'idle'}>
+          <Square className="w-4 h-4" />
+          Stop
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LifecycleControls;
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  ArrowUp,
+  CheckCircle,
+  Circle,
+  Eye,
+  Loader2,
+  RotateCcw,
+  ShieldCheck,
+  ShieldX,
+  XCircle,
+} from 'lucide-react';
+import ExpressionHint from '@/components/liveness/ExpressionHint';
+import type { LivenessFlowControls } from '@/hooks/use-liveness-flow';
+import { CHALLENGE_LABELS, isExpressionChallenge, type ChallengeSessionState } from '@/lib/liveness/challenges';
+import type { LivenessError } from '@/lib/liveness/errors';
+import { EXPRESSIONS } from '@/lib/liveness/expressions';
+import { FLOW_STAGES, getFlowStage } from '@/lib/liveness/flow';
+import { FRAMING_HINT_LABELS, type FramingReport } from '@/lib/liveness/framing';
+import type { QualityReport } from '@/lib/liveness/quality';
+
+interface LivenessWizardProps {
+  flow: LivenessFlowControls;
+  session: ChallengeSessionState | null;
+  quality: QualityReport | null;
+  framing: FramingReport | null;
+  faceCount: number;
+  // Several faces are in view and the multi-face policy picked none of them
+  multipleFaces: boolean;
+  error: LivenessError | null;
+  // Expression challenges are only issued with the Face Mesh backend
+  expressionsAvailable: boolean;
+}
+
+const INSTRUCTIONS = [
+  { icon: <CheckCircle className="w-4 h-4 text-success" />, label: 'Look straight ahead' },
+  { icon: <RotateCcw className="w-4 h-4 text-primary rotate-90" />, label: 'Turn your head left or right' },
+  { icon: <ArrowUp className="w-4 h-4 text-primary" />, label: 'Look up or down' },
+  { icon: <Eye className="w-4 h-4 text-primary" />, label: 'Blink when asked' },
+];
+
+const getPositionHint = (quality: QualityReport | null, framing: FramingReport | null, faceCount: number, multipleFaces: boolean) => {
+  if (faceCount === 0) return FRAMING_HINT_LABELS['find-face'];
+  if (multipleFaces) return 'Make sure only you are in the frame';
+  if (framing?.hint) return FRAMING_HINT_LABELS[framing.hint];
+  if (quality && !quality.ok && quality.guidance) return quality.guidance;
+  return 'Hold still…';
+};
+
+const LivenessWizard = ({ flow, session, quality, framing, faceCount, multipleFaces, error, expressionsAvailable }: LivenessWizardProps) => {
+  const [agreed, setAgreed] = useState(false);
+  const { state, consent, retry, cancel } = flow;
+  const stage = getFlowStage(state.step);
+  const challenge = session?.challenges[session.currentIndex] ?? null;
+  const isRunning = session?.status === 'running' || session?.status === 'paused';
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Liveness Check</h3>
+        <span className="text-xs text-muted-foreground">
+          Step {stage + 1} of {FLOW_STAGES.length} · {FLOW_STAGES[stage]}
+        </span>
+      </div>
+
+      <div className="flex gap-1">
+        {FLOW_STAGES.map((label, index) => (
+          <div
+            key={label}
+            className={`h-1 flex-1 rounded-full ${index <= stage ? 'bg-primary' : 'bg-muted'}`}
+          />
+        ))}
+      </div>
+
+      {state.step === 'intro' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            We'll use your camera to confirm that a live person is in front of it. You'll be asked to perform a few
+            short actions such as:
+          </p>
+          <div className="space-y-2 text-sm text-muted-foreground">
+            {INSTRUCTIONS.map(({ icon, label }) => (
+              <div key={label} className="flex items-center gap-2">
+                {icon}
+                <span>{label}</span>
+              </div>
+            ))}
+            {expressionsAvailable && EXPRESSIONS.map(expression => (
+              <div key={expression} className="flex items-center gap-2">
+                <ExpressionHint expression={expression} className="w-4 h-4 text-primary" />
+                <span>{CHALLENGE_LABELS[expression]}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox id="liveness-consent" checked={agreed} onCheckedChange={checked => setAgreed(checked === true)} />
+            <Label htmlFor="liveness-consent" className="text-sm font-normal leading-snug">
+              I agree to the use of my camera. Video is analysed on this device; only the result and one face photo
+              are sent for verification.
+            </Label>
+          </div>
+          <Button onClick={consent} size="sm" className="w-full" disabled={!agreed}>
+            Start Liveness Check
+          </Button>
+        </div>
+      )}
+
+      {state.step === 'camera' && (
+        <div className="space-y-4">
+          {error ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Starting the camera…</span>
+            </div>
+          )}
+          <Button onClick={cancel} variant="outline" size="sm" className="w-full">
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {state.step === 'quality' && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">{getPositionHint(quality, framing, faceCount, multipleFaces)}</p>
+          <p className="text-xs text-muted-foreground">Fit your face inside the oval and face the camera in good, even light.</p>
+          <Progress value={state.qualityProgress * 100} className="h-2" />
+          <Button onClick={cancel} variant="outline" size="sm" className="w-full">
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {state.step === 'countdown' && (
+        <div className="space-y-2 text-center">
+          <p className="text-5xl font-bold tabular-nums">{state.countdown}</p>
+          <p className="text-sm text-muted-foreground">Get ready and follow the instructions on screen</p>
+        </div>
+      )}
+
+      {state.step === 'challenges' && (
+        <div className="space-y-3">
+          {!session || !isRunning ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Preparing challenges…</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Challenge {Math.min(session.currentIndex + 1, session.challenges.length)} of {session.challenges.length}</span>
+                {session.status === 'paused' && <Badge variant="secondary">Paused</Badge>}
+              </div>
+              <Progress value={((session.currentIndex + session.holdProgress) / session.challenges.length) * 100} className="h-2" />
+
+              <div className="space-y-2">
+                {session.challenges.map((step, index) => {
+                  const result = session.results[index];
+                  const isCurrent = index === session.currentIndex;
+
+                  return (
+                    <div
+                      key={`${step}-${index}`}
+                      className={`flex items-center gap-2 p-2 rounded-md text-sm ${isCurrent ? 'bg-primary/10' : 'bg-muted/50'}`}
+                    >
+                      {result?.passed && <CheckCircle className="w-4 h-4 text-success" />}
+                      {result && !result.passed && <XCircle className="w-4 h-4 text-destructive" />}
+                      {!result && <Circle className="w-4 h-4 text-muted-foreground" />}
+                      <span className={isCurrent ? 'font-medium' : 'text-muted-foreground'}>{CHALLENGE_LABELS[step]}</span>
+                      {isCurrent && isExpressionChallenge(challenge) && (
+                        <ExpressionHint expression={challenge} className="w-5 h-5 ml-auto text-primary" />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {session.qualityIssue && <p className="text-sm text-warning">Paused — {session.qualityIssue}</p>}
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Blinks this session:</span>
+                <span className="font-mono">{session.blinkCount}</span>
+              </div>
+            </>
+          )}
+          <Button onClick={cancel} variant="outline" size="sm" className="w-full">
+            Cancel Check
+          </Button>
+        </div>
+      )}
+
+      {state.step === 'success' && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-success">
+            <ShieldCheck className="w-6 h-6" />
+            <span className="font-medium">All challenges completed</span>
+          </div>
+          <Button onClick={retry} variant="outline" size="sm" className="w-full">
+            Check Again
+          </Button>
+        </div>
+      )}
+
+      {state.step === 'failure' && (
+        <div className="space-y-4">
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <ShieldX className="w-5 h-5 shrink-0" />
+            <div className="space-y-1">
+              <p className="font-medium">The check did not pass</p>
+              <ul className="space-y-1">
+                {state.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={retry} size="sm" className="flex-1">
+              Try Again
+            </Button>
+            <Button onClick={cancel} variant="outline" size="sm" className="flex-1">
+              Start Over
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default LivenessWizard;
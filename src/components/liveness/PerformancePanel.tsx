@@ -0,0 +1,104 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Download } from 'lucide-react';
+import { buildMetricsReport, type PerformanceMetrics } from '@/lib/liveness/telemetry';
+
+interface PerformancePanelProps {
+  metrics: PerformanceMetrics | null;
+  debugOverlay: boolean;
+  onDebugOverlayChange: (enabled: boolean) => void;
+  powerSaving: boolean;
+  onPowerSavingChange: (enabled: boolean) => void;
+  // Returns up-to-date metrics for the download
+  getMetrics: () => PerformanceMetrics;
+}
+
+const formatMs = (value: number | null) => (value === null ? '—' : `${value.toFixed(0)} ms`);
+
+const SCHEDULER_LABELS: Record<NonNullable<PerformanceMetrics['schedulerMode']>, string> = {
+  active: 'Full rate (challenge active)',
+  tracking: 'Tracking',
+  stable: 'Throttled (face still)',
+  absent: 'Throttled (no face)',
+  hidden: 'Paused (tab hidden)',
+};
+
+const PerformancePanel = ({
+  metrics,
+  debugOverlay,
+  onDebugOverlayChange,
+  powerSaving,
+  onPowerSavingChange,
+  getMetrics,
+}: PerformancePanelProps) => {
+  const rows: [string, string][] = metrics
+    ? [
+        ['Capture FPS', metrics.captureFps.toFixed(1)],
+        ['Inference FPS', metrics.inferenceFps.toFixed(1)],
+        ['Latency p50 / p90', `${formatMs(metrics.latency.p50)} / ${formatMs(metrics.latency.p90)}`],
+        ['Latency p99', formatMs(metrics.latency.p99)],
+        ['Dropped frames', `${metrics.droppedFrames} of ${metrics.framesCaptured}`],
+        ['Throttled frames', `${metrics.throttledFrames} of ${metrics.framesCaptured}`],
+        ['Detection rate', metrics.schedulerMode ? SCHEDULER_LABELS[metrics.schedulerMode] : 'Every frame'],
+        ['Time to first face', formatMs(metrics.timeToFirstFaceMs)],
+      ]
+    : [];
+
+  const downloadMetrics = () => {
+    const report = buildMetricsReport(getMetrics());
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `liveness-metrics-${report.generatedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Performance</h3>
+        {metrics?.detector && (
+          <Badge variant="outline">{metrics.detector === 'worker' ? 'Web Worker' : 'Main thread'}</Badge>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{label}:</span>
+            <span className="font-mono text-xs">{value}</span>
+          </div>
+        ))}
+
+        {!metrics && (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            Waiting for frames
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id="power-saving" checked={powerSaving} onCheckedChange={onPowerSavingChange} />
+        <Label htmlFor="power-saving" className="text-sm text-muted-foreground">Power saving</Label>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch id="debug-overlay" checked={debugOverlay} onCheckedChange={onDebugOverlayChange} />
+          <Label htmlFor="debug-overlay" className="text-sm text-muted-foreground">Debug overlay</Label>
+        </div>
+        <Button onClick={downloadMetrics} variant="outline" size="sm" disabled={!metrics}>
+          <Download className="w-4 h-4" />
+          Metrics JSON
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default PerformancePanel;
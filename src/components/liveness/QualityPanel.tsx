@@ -0,0 +1,50 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { QualityMetrics, QualityReport } from '@/lib/liveness/quality';
+
+interface QualityPanelProps {
+  quality: QualityReport | null;
+}
+
+const METRICS: { key: Exclude<keyof QualityMetrics, 'centerOffset'>; label: string; digits: number }[] = [
+  { key: 'brightness', label: 'Brightness', digits: 2 },
+  { key: 'contrast', label: 'Contrast', digits: 3 },
+  { key: 'sharpness', label: 'Sharpness', digits: 4 },
+  { key: 'backlight', label: 'Backlight', digits: 2 },
+  { key: 'faceSize', label: 'Face size', digits: 2 },
+];
+
+const QualityPanel = ({ quality }: QualityPanelProps) => {
+  const offset = quality?.metrics.centerOffset;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Image Quality</h3>
+        <Badge className={quality?.ok ? 'bg-success text-white' : 'bg-warning text-white'}>
+          {quality?.ok ? 'Good' : quality?.guidance ?? 'Waiting'}
+        </Badge>
+      </div>
+
+      <div className="space-y-2">
+        {METRICS.map(({ key, label, digits }) => {
+          const value = quality?.metrics[key] ?? null;
+          return (
+            <div key={key} className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{label}:</span>
+              <span className="font-mono text-xs">{value === null ? '—' : value.toFixed(digits)}</span>
+            </div>
+          );
+        })}
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Center offset:</span>
+          <span className="font-mono text-xs">
+            {offset ? `${offset.x.toFixed(2)}, ${offset.y.toFixed(2)}` : '—'}
+          </span>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default QualityPanel;
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Settings } from 'lucide-react';
+import {
+  DEFAULT_DETECTOR_SETTINGS,
+  detectorSettingsSchema,
+  type DetectorSettings,
+} from '@/lib/liveness/settings';
+
+interface SettingsSheetProps {
+  settings: DetectorSettings;
+  onChange: (settings: DetectorSettings) => void;
+}
+
+type NumericSetting = Exclude<keyof DetectorSettings, 'backend' | 'model' | 'multiFacePolicy' | 'mirrorPreview'>;
+
+const NUMERIC_FIELDS: { name: NumericSetting; label: string; description: string; step: number }[] = [
+  { name: 'minDetectionConfidence', label: 'Min. detection confidence', description: 'Detections below this score are ignored (0.1–0.95)', step: 0.05 },
+  { name: 'yawThreshold', label: 'Yaw threshold (°)', description: 'Rotation before a turn counts as left or right', step: 1 },
+  { name: 'pitchThreshold', label: 'Pitch threshold (°)', description: 'Rotation before a nod counts as up or down', step: 1 },
+  { name: 'rollThreshold', label: 'Roll threshold (°)', description: 'Rotation before a head tilt is recognised', step: 1 },
+  { name: 'historyLength', label: 'History length', description: 'Number of recent detections kept', step: 1 },
+  { name: 'canvasWidth', label: 'Canvas width (px)', description: 'Largest width the preview is rendered at', step: 1 },
+  { name: 'canvasHeight', label: 'Canvas height (px)', description: 'Largest height the preview is rendered at', step: 1 },
+];
+
+const SettingsSheet = ({ settings, onChange }: SettingsSheetProps) => {
+  const [open, setOpen] = useState(false);
+  const form = useForm<DetectorSettings>({
+    resolver: zodResolver(detectorSettingsSchema),
+    defaultValues: settings,
+  });
+
+  // Start from the active settings every time the sheet opens
+  useEffect(() => {
+    if (open) form.reset(settings);
+  }, [open, settings, form]);
+
+  const onSubmit = (values: DetectorSettings) => {
+    onChange(values);
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings className="w-4 h-4" />
+          Settings
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Detector Settings</SheetTitle>
+          <SheetDescription>
+            Saved in this browser. URL parameters such as <code>?model=full&amp;minConfidence=0.7</code> override them.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+            <FormField
+              control={form.control}
+              name="backend"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Detector backend</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="face-detection">Face Detection (6 keypoints)</SelectItem>
+                      <SelectItem value="face-mesh">Face Mesh (468 landmarks)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Face Mesh measures blinks from the eyelids but is slower</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="model"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Detection model</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="short">Short range (within ~2 m)</SelectItem>
+                      <SelectItem value="full">Full range (up to ~5 m)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="multiFacePolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Multiple faces</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="reject">Pause until only one face is visible</SelectItem>
+                      <SelectItem value="largest">Use the largest face</SelectItem>
+                      <SelectItem value="most-centered">Use the face closest to the center</SelectItem>
+                      <SelectItem value="locked">Follow the first face found</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Which face is checked when several are in view</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="mirrorPreview"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                  <div className="space-y-1">
+                    <FormLabel>Mirror preview</FormLabel>
+                    <FormDescription>Show the camera like a selfie, so turning left moves your face to the left</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {NUMERIC_FIELDS.map(({ name, label, description, step }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={step} {...field} />
+                    </FormControl>
+                    <FormDescription>{description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <SheetFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => form.reset(DEFAULT_DETECTOR_SETTINGS)}>
+                Restore Defaults
+              </Button>
+              <Button type="submit">Save</Button>
+            </SheetFooter>
+          </form>
+        </Form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SettingsSheet;
@@ -0,0 +1,66 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Camera as CameraIcon, FileVideo, StepForward } from 'lucide-react';
+import type { FrameSourceKind, PlaybackOptions } from '@/lib/liveness/sources';
+
+interface SourceControlsProps {
+  sourceKind: FrameSourceKind;
+  stepMode: boolean;
+  onLoadFiles: (files: File[], playback: PlaybackOptions) => void;
+  onUseCamera: () => void;
+  onStep: () => void;
+}
+
+const SourceControls = ({ sourceKind, stepMode, onLoadFiles, onUseCamera, onStep }: SourceControlsProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [stepFrames, setStepFrames] = useState(false);
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow loading the same file again
+    event.target.value = '';
+    if (files.length > 0) {
+      onLoadFiles(files, { stepMode: stepFrames });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="video/*,image/*"
+        multiple
+        className="hidden"
+        onChange={handleFiles}
+      />
+      <Button onClick={() => inputRef.current?.click()} variant="outline" size="sm">
+        <FileVideo className="w-4 h-4" />
+        Load video
+      </Button>
+
+      <div className="flex items-center gap-2">
+        <Switch id="step-frames" checked={stepFrames} onCheckedChange={setStepFrames} />
+        <Label htmlFor="step-frames" className="text-sm text-muted-foreground">Step frames</Label>
+      </div>
+
+      {sourceKind !== 'camera' && stepMode && (
+        <Button onClick={onStep} variant="outline" size="sm">
+          <StepForward className="w-4 h-4" />
+          Next frame
+        </Button>
+      )}
+
+      {sourceKind !== 'camera' && (
+        <Button onClick={onUseCamera} variant="ghost" size="sm">
+          <CameraIcon className="w-4 h-4" />
+          Back to camera
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SourceControls;
@@ -0,0 +1,59 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { SpoofAssessment, SpoofSignalName, SpoofVerdict } from '@/lib/liveness/spoof';
+
+interface SpoofPanelProps {
+  assessment: SpoofAssessment | null;
+}
+
+const SIGNAL_LABELS: Record<SpoofSignalName, string> = {
+  moire: 'Moiré pattern',
+  specular: 'Specular glare',
+  texture: 'Flat texture',
+  'micro-motion': 'No micro-motion',
+  'planar-motion': 'Planar motion',
+};
+
+const getVerdictClass = (verdict: SpoofVerdict) => {
+  switch (verdict) {
+    case 'live': return 'bg-success text-white';
+    case 'spoof': return 'bg-destructive text-white';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+const SpoofPanel = ({ assessment }: SpoofPanelProps) => {
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Spoof Analysis</h3>
+        <Badge className={getVerdictClass(assessment?.verdict ?? 'uncertain')}>
+          {assessment?.score == null ? 'Collecting' : `${(assessment.score * 100).toFixed(0)}% ${assessment.verdict}`}
+        </Badge>
+      </div>
+
+      <div className="space-y-3">
+        {assessment?.signals.map(signal => (
+          <div key={signal.name} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{SIGNAL_LABELS[signal.name]}</span>
+              <span className="font-mono text-xs">
+                {signal.value === null ? '—' : signal.value.toFixed(3)}
+              </span>
+            </div>
+            <Progress value={(signal.score ?? 0) * 100} className="h-1.5" />
+          </div>
+        ))}
+
+        {!assessment && (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            Waiting for a face
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default SpoofPanel;
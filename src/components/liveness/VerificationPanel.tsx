@@ -0,0 +1,125 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, Copy, Download, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import type { VerificationState, VerificationStatus } from '@/hooks/use-session-verification';
+
+interface VerificationPanelProps {
+  verification: VerificationState;
+  onConfirm: () => void;
+  onRetake: () => void;
+}
+
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+  idle: 'Not submitted',
+  confirming: 'Awaiting confirmation',
+  pending: 'Verifying',
+  verified: 'Verified',
+  rejected: 'Rejected',
+  unavailable: 'Unavailable',
+};
+
+const getStatusClass = (status: VerificationStatus) => {
+  switch (status) {
+    case 'verified': return 'bg-success text-white';
+    case 'rejected': return 'bg-destructive text-white';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+const VerificationPanel = ({ verification, onConfirm, onRetake }: VerificationPanelProps) => {
+  const { status, result, token, error } = verification;
+
+  // A session whose result could not be prepared still shows why
+  if (!result && !error) return null;
+
+  const copyToken = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(token.token);
+    toast({ title: 'Token copied to clipboard' });
+  };
+
+  const downloadResult = () => {
+    if (!result) return;
+    const blob = new Blob([JSON.stringify({ result, token: token?.token ?? null }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `liveness-result-${result.sessionId ?? result.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Verification</h3>
+        <Badge className={`${getStatusClass(status)} flex items-center gap-1`}>
+          {status === 'pending' && <Loader2 className="w-3 h-3 animate-spin" />}
+          {STATUS_LABELS[status]}
+        </Badge>
+      </div>
+
+      {result?.bestFrame && (
+        <div className="flex items-center gap-3">
+          <img
+            src={result.bestFrame.face}
+            alt="Captured face"
+            className="w-24 h-24 rounded-md border border-border object-cover"
+          />
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>Best frontal frame of the session</p>
+            <p className="font-mono">Score {(result.bestFrame.score.total * 100).toFixed(0)}%</p>
+          </div>
+        </div>
+      )}
+
+      {status === 'confirming' && (
+        <div className="space-y-2">
+          <p className="text-sm">Is your face clearly visible in this photo?</p>
+          <div className="flex gap-2">
+            <Button onClick={onConfirm} size="sm" className="flex-1">
+              <Check className="w-4 h-4" />
+              Use photo
+            </Button>
+            <Button onClick={onRetake} variant="outline" size="sm" className="flex-1">
+              <RotateCcw className="w-4 h-4" />
+              Retake
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {token && (
+        <div className="space-y-2">
+          <p className="text-xs font-mono break-all bg-muted/50 rounded-md p-2 max-h-24 overflow-y-auto">
+            {token.token}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Expires {new Date(token.expiresAt).toLocaleTimeString()}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {token && (
+          <Button onClick={copyToken} variant="outline" size="sm" className="flex-1">
+            <Copy className="w-4 h-4" />
+            Copy token
+          </Button>
+        )}
+        {result && (
+          <Button onClick={downloadResult} variant="outline" size="sm" className="flex-1">
+            <Download className="w-4 h-4" />
+            Result JSON
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default VerificationPanel;
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listVideoInputs } from '@/lib/liveness/devices';
+
+/**
+ * Lists the available video inputs and keeps the list current as cameras are
+ * plugged in or removed. `onDeviceLost` fires when `selectedDeviceId` disappears.
+ */
+export function useCameraDevices(selectedDeviceId: string | null, onDeviceLost?: () => void, refreshKey?: unknown) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listVideoInputs());
+    } catch (err) {
+      console.error('Error enumerating cameras:', err);
+    }
+  }, []);
+
+  // Labels only become available once permission is granted, so refresh whenever the caller's key changes
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!selectedDeviceId || devices.length === 0) return;
+    if (!devices.some(device => device.deviceId === selectedDeviceId)) {
+      onDeviceLost?.();
+    }
+  }, [devices, selectedDeviceId, onDeviceLost]);
+
+  return { devices, refresh };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import type { ChallengeSessionState } from '@/lib/liveness/challenges';
+import type { LivenessEngine, LivenessEngineStatus } from '@/lib/liveness/engine';
+import type { LivenessError } from '@/lib/liveness/errors';
+import { advanceFlow, INITIAL_FLOW_STATE, type FlowState } from '@/lib/liveness/flow';
+
+const TICK_MS = 100;
+
+export interface LivenessFlowInput {
+  engine: LivenessEngine;
+  status: LivenessEngineStatus;
+  error: LivenessError | null;
+  session: ChallengeSessionState | null;
+  // Frames are ready once the face picked by the multi-face policy fills the framing oval
+  // with acceptable quality, and never while calibration is using them
+  isCalibrating: boolean;
+  startCamera: () => void;
+  startSession: () => void;
+  cancelSession: () => void;
+}
+
+export interface LivenessFlowControls {
+  state: FlowState;
+  consent: () => void;
+  retry: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Drives the guided check's state machine from the engine's frames and the
+ * challenge session, and performs the side effects of its transitions:
+ * starting the camera, counting down and starting the session.
+ */
+export function useLivenessFlow({
+  engine,
+  status,
+  error,
+  session,
+  isCalibrating,
+  startCamera,
+  startSession,
+  cancelSession,
+}: LivenessFlowInput): LivenessFlowControls {
+  const [state, dispatch] = useReducer(advanceFlow, INITIAL_FLOW_STATE);
+  const isCalibratingRef = useRef(isCalibrating);
+  isCalibratingRef.current = isCalibrating;
+  // Verdict of the previous session, which must not end the attempt that replaces it
+  const staleVerdictRef = useRef<ChallengeSessionState['verdict']>(null);
+  const startedAttemptRef = useRef(0);
+  const { step } = state;
+
+  useEffect(
+    () =>
+      engine.on('frame', frame => {
+        const ready =
+          frame.face !== null && frame.orientation !== 'none' && frame.framing.ok && frame.quality.ok && !isCalibratingRef.current;
+        dispatch({ type: 'frame', ready, timestamp: frame.timestamp });
+      }),
+    [engine]
+  );
+
+  const cameraRunning = status === 'running' && !error;
+  useEffect(() => {
+    if (step === 'camera' && cameraRunning) {
+      dispatch({ type: 'camera-ready' });
+    } else if (!cameraRunning && status !== 'paused' && (step === 'quality' || step === 'countdown' || step === 'challenges')) {
+      // A session without frames would only time out, so it fails right away
+      if (step === 'challenges') cancelSession();
+      dispatch({ type: 'camera-lost' });
+    }
+  }, [step, cameraRunning, status, cancelSession]);
+
+  useEffect(() => {
+    if (step !== 'countdown') return;
+
+    const tick = () => dispatch({ type: 'tick', timestamp: performance.now() });
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [step]);
+
+  useEffect(() => {
+    if (step !== 'challenges' || startedAttemptRef.current === state.attempt) return;
+
+    startedAttemptRef.current = state.attempt;
+    staleVerdictRef.current = session?.verdict ?? null;
+    startSession();
+  }, [step, state.attempt, session, startSession]);
+
+  const verdict = session?.verdict ?? null;
+  useEffect(() => {
+    if (step !== 'challenges' || !verdict || verdict === staleVerdictRef.current) return;
+    dispatch({ type: 'session-ended', passed: verdict.passed, reasons: verdict.reasons });
+  }, [step, verdict]);
+
+  const ensureCamera = useCallback(() => {
+    if (status === 'idle' || status === 'stopped' || status === 'error') startCamera();
+  }, [status, startCamera]);
+
+  const consent = useCallback(() => {
+    dispatch({ type: 'consent' });
+    ensureCamera();
+  }, [ensureCamera]);
+
+  const retry = useCallback(() => {
+    dispatch({ type: 'retry' });
+    ensureCamera();
+  }, [ensureCamera]);
+
+  const cancel = useCallback(() => {
+    if (step === 'challenges') cancelSession();
+    dispatch({ type: 'cancel' });
+  }, [step, cancelSession]);
+
+  return { state, consent, retry, cancel };
+}
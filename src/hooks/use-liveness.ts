@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePoseCalibration } from '@/hooks/use-pose-calibration';
+import { useSessionVerification } from '@/hooks/use-session-verification';
+import type { BlinkState } from '@/lib/liveness/blink';
+import { loadCalibration } from '@/lib/liveness/calibration';
+import { ChallengeSession, type ChallengeSessionState } from '@/lib/liveness/challenges';
+import { LivenessEngine, type LivenessEngineOptions, type LivenessEngineStatus, type LivenessFrame } from '@/lib/liveness/engine';
+import { loadCameraPreferences, saveCameraPreferences, type CameraPreferences } from '@/lib/liveness/devices';
+import { LivenessError, queryCameraPermission } from '@/lib/liveness/errors';
+import type { ExpressionState } from '@/lib/liveness/expressions';
+import type { FramingReport } from '@/lib/liveness/framing';
+import type { QualityReport } from '@/lib/liveness/quality';
+import { loadDetectorSettings, saveDetectorSettings, toEngineOptions, type DetectorSettings } from '@/lib/liveness/settings';
+import { CameraSource, createFileSource, type FrameSourceKind, type PlaybackOptions } from '@/lib/liveness/sources';
+import type { SpoofAssessment } from '@/lib/liveness/spoof';
+import type { PerformanceMetrics } from '@/lib/liveness/telemetry';
+import type { Detection, FaceOrientation, HeadPose } from '@/lib/liveness/types';
+import { requestChallenge } from '@/lib/liveness/verification';
+
+// How long to wait for the verifier to issue challenges before falling back to local ones
+const CHALLENGE_REQUEST_TIMEOUT_MS = 3000;
+
+export interface UseLivenessOptions extends LivenessEngineOptions {
+  // Start the camera on mount; otherwise it waits for `start`, e.g. until the user has consented
+  autoStart?: boolean;
+}
+
+/**
+ * Binds a `LivenessEngine` to a video/canvas pair and exposes its results as
+ * React state, together with the challenge session driven by those results.
+ */
+export function useLiveness({ autoStart = true, ...options }: UseLivenessOptions = {}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sessionRef = useRef<ChallengeSession | null>(null);
+  const cameraPreferencesRef = useRef<CameraPreferences>(loadCameraPreferences());
+  const issuedSessionIdRef = useRef<string | null>(null);
+  // Bumped by every session start and cancel, so a session still being prepared can tell it was cancelled
+  const sessionRequestRef = useRef(0);
+  const spoofRef = useRef<SpoofAssessment | null>(null);
+  const [settings, setSettingsState] = useState<DetectorSettings>(loadDetectorSettings);
+  const [engine] = useState(
+    () => new LivenessEngine({ calibration: loadCalibration(), ...toEngineOptions(settings), ...options })
+  );
+  const calibration = usePoseCalibration(engine);
+
+  const [status, setStatus] = useState<LivenessEngineStatus>(engine.status);
+  const [currentOrientation, setCurrentOrientation] = useState<FaceOrientation>('none');
+  const [currentPose, setCurrentPose] = useState<HeadPose | null>(null);
+  // Unsmoothed values, shown next to the stabilized ones for debugging
+  const [raw, setRaw] = useState<LivenessFrame['raw'] | null>(null);
+  const [confidence, setConfidence] = useState(0);
+  const [faceCount, setFaceCount] = useState(0);
+  const [multipleFaces, setMultipleFaces] = useState(false);
+  const [blinkState, setBlinkState] = useState<BlinkState | null>(null);
+  const [expressions, setExpressions] = useState<ExpressionState | null>(null);
+  const [spoofAssessment, setSpoofAssessment] = useState<SpoofAssessment | null>(null);
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+  const [framing, setFraming] = useState<FramingReport | null>(null);
+  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+  const [debugOverlay, setDebugOverlayState] = useState(false);
+  const [powerSaving, setPowerSavingState] = useState(true);
+  const [detectionHistory, setDetectionHistory] = useState<Detection[]>([]);
+  const [error, setError] = useState<LivenessError | null>(null);
+  // Camera permission as reported by the Permissions API, null where unsupported
+  const [cameraPermission, setCameraPermission] = useState<PermissionState | null>(null);
+  const previousPermissionRef = useRef<PermissionState | null>(null);
+  const [sessionState, setSessionState] = useState<ChallengeSessionState | null>(null);
+  const [isPreparingSession, setIsPreparingSession] = useState(false);
+  // Camera start requests; 0 until the camera is first started
+  const [attempt, setAttempt] = useState(autoStart ? 1 : 0);
+  const [sourceKind, setSourceKind] = useState<FrameSourceKind>('camera');
+  const [stepMode, setStepMode] = useState(false);
+  const [cameraPreferences, setCameraPreferencesState] = useState<CameraPreferences>(cameraPreferencesRef.current);
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('status', setStatus),
+      engine.on('error', setError),
+      engine.on('detection', () => setDetectionHistory(engine.getHistory())),
+      engine.on('metrics', setMetrics),
+      engine.on('frame', frame => {
+        setCurrentOrientation(frame.orientation);
+        setCurrentPose(frame.pose);
+        setRaw(frame.raw);
+        setConfidence(frame.confidence);
+        setFaceCount(frame.faceCount);
+        setMultipleFaces(frame.multipleFaces);
+        setBlinkState(frame.blink);
+        setExpressions(frame.expressions);
+        setSpoofAssessment(frame.spoof);
+        setQuality(frame.quality);
+        setFraming(frame.framing);
+
+        const session = sessionRef.current;
+        if (session && session.getState().status === 'running') {
+          spoofRef.current = frame.spoof;
+          setSessionState(session.update(frame));
+        }
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine]);
+
+  // Detect at the full rate while the user is following a challenge or calibration step
+  const isActive = sessionState?.status === 'running' || calibration.state?.status === 'running';
+  useEffect(() => {
+    engine.setActive(isActive);
+  }, [engine, isActive]);
+
+  useEffect(() => {
+    if (!videoRef.current || attempt === 0) return;
+
+    engine.attachCanvas(canvasRef.current);
+    engine.start(new CameraSource(videoRef.current, cameraPreferencesRef.current));
+    setSourceKind('camera');
+    setStepMode(false);
+
+    return () => engine.stop();
+  }, [engine, attempt]);
+
+  const retry = useCallback(() => {
+    setError(null);
+    setAttempt(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    let permission: PermissionStatus | null = null;
+    let cancelled = false;
+    const onChange = () => permission && setCameraPermission(permission.state);
+
+    queryCameraPermission().then(status => {
+      if (cancelled || !status) return;
+      permission = status;
+      setCameraPermission(status.state);
+      status.addEventListener('change', onChange);
+    });
+
+    return () => {
+      cancelled = true;
+      permission?.removeEventListener('change', onChange);
+    };
+  }, []);
+
+  // Restart once the user re-enables a blocked camera in the browser's site settings
+  useEffect(() => {
+    const previous = previousPermissionRef.current;
+    previousPermissionRef.current = cameraPermission;
+    if (previous === 'denied' && cameraPermission !== 'denied' && error?.code === 'permission-denied') {
+      retry();
+    }
+  }, [cameraPermission, error, retry]);
+
+  // Pausing freezes a running check; calibration restarts since its steps are timed
+  const pause = useCallback(() => {
+    engine.pause();
+    if (engine.status !== 'paused') return;
+
+    if (calibration.state?.status === 'running') calibration.cancel();
+    if (sessionRef.current) setSessionState(sessionRef.current.pause());
+  }, [engine, calibration]);
+
+  const resume = useCallback(async () => {
+    if (sessionRef.current) setSessionState(sessionRef.current.resume());
+    await engine.resume();
+  }, [engine]);
+
+  // Releases the camera and the detector; a running check fails
+  const stop = useCallback(() => {
+    if (calibration.state?.status === 'running') calibration.cancel();
+    sessionRequestRef.current++;
+    setIsPreparingSession(false);
+    if (sessionRef.current) setSessionState(sessionRef.current.cancel('Detection stopped'));
+    engine.stop();
+  }, [engine, calibration]);
+
+  const resetDetection = useCallback(() => {
+    engine.resetHistory();
+    setDetectionHistory([]);
+    setCurrentOrientation('none');
+    setCurrentPose(null);
+    setRaw(null);
+    setConfidence(0);
+    setFaceCount(0);
+    setMultipleFaces(false);
+    setBlinkState(null);
+    setExpressions(null);
+    setSpoofAssessment(null);
+    setFraming(null);
+  }, [engine]);
+
+  // Replays a recorded video or image sequence instead of the camera
+  const loadFiles = useCallback((files: File[], playback: PlaybackOptions = {}) => {
+    if (!videoRef.current) return;
+
+    try {
+      const source = createFileSource(videoRef.current, files, playback);
+      resetDetection();
+      engine.resetSpoofAnalysis();
+      setSourceKind(source.kind);
+      setStepMode(source.stepMode);
+      engine.start(source);
+    } catch (err) {
+      setError(new LivenessError('file-load-failed', err instanceof Error ? err.message : 'Unable to load the selected files.', err));
+    }
+  }, [engine, resetDetection]);
+
+  const switchToCamera = useCallback(() => {
+    resetDetection();
+    setError(null);
+    setAttempt(prev => prev + 1);
+  }, [resetDetection]);
+
+  const stepFrame = useCallback(() => engine.step(), [engine]);
+
+  // Persists the camera choice and restarts the camera with it; a camera that was never started
+  // stays off, since it may only start once the user has consented
+  const setCameraPreferences = useCallback((preferences: CameraPreferences) => {
+    cameraPreferencesRef.current = preferences;
+    saveCameraPreferences(preferences);
+    setCameraPreferencesState(preferences);
+    setError(null);
+    setAttempt(prev => (prev > 0 ? prev + 1 : prev));
+  }, []);
+
+  const setDebugOverlay = useCallback((enabled: boolean) => {
+    engine.setDebugOverlay(enabled);
+    setDebugOverlayState(enabled);
+  }, [engine]);
+
+  const setPowerSaving = useCallback((enabled: boolean) => {
+    engine.setPowerSaving(enabled);
+    setPowerSavingState(enabled);
+  }, [engine]);
+
+  // Persists detector settings and applies them to the running engine
+  const setSettings = useCallback((next: DetectorSettings) => {
+    saveDetectorSettings(next);
+    setSettingsState(next);
+    engine.configure(toEngineOptions(next));
+    setDetectionHistory(engine.getHistory());
+  }, [engine]);
+
+  const startSession = useCallback(async () => {
+    const request = ++sessionRequestRef.current;
+    setIsPreparingSession(true);
+
+    // Prefer a server-issued sequence so the verifier can check the result against it
+    // Expression steps need the eyelid, brow and lip landmarks only Face Mesh provides
+    const expressions = engine.backend === 'face-mesh';
+    let issued = null;
+    try {
+      issued = await requestChallenge({ expressions }, AbortSignal.timeout(CHALLENGE_REQUEST_TIMEOUT_MS));
+    } catch (err) {
+      console.warn('Verifier unavailable, using local challenges:', err);
+    }
+    // Cancelled, or replaced by another start, while waiting for the verifier
+    if (sessionRequestRef.current !== request) return;
+
+    const session = new ChallengeSession(issued ? { challenges: issued.challenges } : { includeExpression: expressions });
+    sessionRef.current = session;
+    issuedSessionIdRef.current = issued?.sessionId ?? null;
+    spoofRef.current = null;
+    engine.resetSpoofAnalysis();
+    // The engine keeps the best frontal frames of the session as evidence for the result
+    engine.startCapture();
+    setIsPreparingSession(false);
+    setSessionState(session.start());
+  }, [engine]);
+
+  const cancelSession = useCallback(() => {
+    sessionRequestRef.current++;
+    setIsPreparingSession(false);
+    if (sessionRef.current) {
+      setSessionState(sessionRef.current.cancel());
+    }
+  }, []);
+
+  const verification = useSessionVerification(sessionState, () => {
+    engine.stopCapture();
+    return {
+      sessionId: issuedSessionIdRef.current,
+      spoof: spoofRef.current,
+      bestFrame: engine.exportBestFrame(),
+    };
+  });
+
+  return {
+    engine,
+    videoRef,
+    canvasRef,
+    status,
+    isInitialized: status === 'running',
+    isDetecting: status === 'running',
+    isPaused: status === 'paused',
+    currentOrientation,
+    currentPose,
+    raw,
+    confidence,
+    faceCount,
+    multipleFaces,
+    blinkState,
+    expressions,
+    spoofAssessment,
+    quality,
+    framing,
+    metrics,
+    debugOverlay,
+    setDebugOverlay,
+    powerSaving,
+    setPowerSaving,
+    detectionHistory,
+    error,
+    cameraPermission,
+    retry,
+    start: switchToCamera,
+    pause,
+    resume,
+    stop,
+    sourceKind,
+    stepMode,
+    loadFiles,
+    switchToCamera,
+    stepFrame,
+    cameraPreferences,
+    setCameraPreferences,
+    settings,
+    setSettings,
+    resetDetection,
+    sessionState,
+    isPreparingSession,
+    startSession,
+    cancelSession,
+    verification,
+    calibration,
+  };
+}
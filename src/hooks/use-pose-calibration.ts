@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  PoseCalibrator,
+  saveCalibration,
+  type CalibrationState,
+  type PoseCalibration,
+} from '@/lib/liveness/calibration';
+import type { LivenessEngine } from '@/lib/liveness/engine';
+
+export interface PoseCalibrationControls {
+  // Active calibration, null when the default thresholds are used
+  calibration: PoseCalibration | null;
+  // Progress of a calibration run, null before the first one
+  state: CalibrationState | null;
+  start: () => void;
+  cancel: () => void;
+  reset: () => void;
+}
+
+/**
+ * Runs the pose calibration flow on an engine's frames and applies and
+ * persists the result once it completes.
+ */
+export function usePoseCalibration(engine: LivenessEngine): PoseCalibrationControls {
+  const calibratorRef = useRef<PoseCalibrator | null>(null);
+  const [calibration, setCalibration] = useState<PoseCalibration | null>(engine.calibration);
+  const [state, setState] = useState<CalibrationState | null>(null);
+
+  useEffect(
+    () =>
+      engine.on('frame', frame => {
+        const calibrator = calibratorRef.current;
+        if (!calibrator || calibrator.getState().status !== 'running') return;
+
+        const next = calibrator.update(frame.pose, frame.timestamp);
+        if (next.status === 'done' && next.calibration) {
+          engine.setCalibration(next.calibration);
+          saveCalibration(next.calibration);
+          setCalibration(next.calibration);
+        }
+        setState(next);
+      }),
+    [engine]
+  );
+
+  const start = useCallback(() => {
+    // Measure against the uncalibrated pose; the previous calibration is restored on cancel
+    engine.setCalibration(null);
+    calibratorRef.current = new PoseCalibrator();
+    setState(calibratorRef.current.start());
+  }, [engine]);
+
+  const cancel = useCallback(() => {
+    if (!calibratorRef.current) return;
+    engine.setCalibration(calibration);
+    setState(calibratorRef.current.cancel());
+  }, [engine, calibration]);
+
+  const reset = useCallback(() => {
+    calibratorRef.current?.cancel();
+    calibratorRef.current = null;
+    engine.setCalibration(null);
+    saveCalibration(null);
+    setCalibration(null);
+    setState(null);
+  }, [engine]);
+
+  return { calibration, state, start, cancel, reset };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CapturedFrame } from '@/lib/liveness/capture';
+import type { ChallengeSessionState } from '@/lib/liveness/challenges';
+import { blobToDataUrl, buildSessionResult, hashBlob, type LivenessSessionResult } from '@/lib/liveness/result';
+import type { SpoofAssessment } from '@/lib/liveness/spoof';
+import { requestVerificationToken, type VerificationToken } from '@/lib/liveness/verification';
+
+export type VerificationStatus = 'idle' | 'confirming' | 'pending' | 'verified' | 'rejected' | 'unavailable';
+
+export interface VerificationState {
+  status: VerificationStatus;
+  result: LivenessSessionResult | null;
+  token: VerificationToken | null;
+  error: string | null;
+}
+
+export interface VerificationControls extends VerificationState {
+  // Submits a result waiting in 'confirming' after the user accepted its photo
+  confirm: () => void;
+}
+
+export interface SessionEvidence {
+  sessionId: string | null;
+  spoof: SpoofAssessment | null;
+  bestFrame: Promise<CapturedFrame | null> | null;
+}
+
+const IDLE: VerificationState = { status: 'idle', result: null, token: null, error: null };
+
+/**
+ * Once a challenge session ends, builds its structured result and, for passed
+ * sessions issued by the verifier, exchanges it for a signed token after the
+ * user has confirmed the captured photo.
+ */
+export function useSessionVerification(session: ChallengeSessionState | null, collectEvidence: () => SessionEvidence): VerificationControls {
+  const [state, setState] = useState<VerificationState>(IDLE);
+  const handledRef = useRef<ChallengeSessionState['verdict']>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const collectRef = useRef(collectEvidence);
+  collectRef.current = collectEvidence;
+
+  const submit = useCallback(async (result: LivenessSessionResult) => {
+    const controller = controllerRef.current;
+    setState({ status: 'pending', result, token: null, error: null });
+    try {
+      const token = await requestVerificationToken(result, controller?.signal);
+      setState({ status: 'verified', result, token, error: null });
+    } catch (err) {
+      if (controller?.signal.aborted) return;
+      setState({ status: 'rejected', result, token: null, error: err instanceof Error ? err.message : 'Verification failed' });
+    }
+  }, []);
+
+  useEffect(() => {
+    const verdict = session?.verdict ?? null;
+    if (!session || !verdict) {
+      if (session?.status === 'running') setState(IDLE);
+      return;
+    }
+    if (handledRef.current === verdict) return;
+    handledRef.current = verdict;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { sessionId, spoof, bestFrame } = collectRef.current();
+
+    const finish = async () => {
+      try {
+        const frame = bestFrame ? await bestFrame : null;
+        const result = buildSessionResult(session, spoof, {
+          sessionId,
+          bestFrameHash: frame ? await hashBlob(frame.face) : null,
+          bestFrame: frame
+            ? {
+                face: await blobToDataUrl(frame.face),
+                fullFrame: frame.fullFrame ? await blobToDataUrl(frame.fullFrame) : null,
+                score: frame.score,
+                capturedAt: frame.timestamp,
+              }
+            : null,
+        });
+        if (controller.signal.aborted) return;
+
+        if (!result.passed) {
+          setState({ status: 'idle', result, token: null, error: null });
+          return;
+        }
+        if (!sessionId) {
+          setState({ status: 'unavailable', result, token: null, error: 'Challenges were generated locally because the verifier was unreachable.' });
+          return;
+        }
+        // Let the user check the photo before it is sent
+        if (result.bestFrame) {
+          setState({ status: 'confirming', result, token: null, error: null });
+          return;
+        }
+
+        await submit(result);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setState({ status: 'rejected', result: null, token: null, error: err instanceof Error ? err.message : 'Could not prepare the session result' });
+      }
+    };
+
+    finish();
+    return () => controller.abort();
+  }, [session, submit]);
+
+  const confirm = useCallback(() => {
+    if (state.status === 'confirming' && state.result) {
+      submit(state.result);
+    }
+  }, [state, submit]);
+
+  return { ...state, confirm };
+}
@@ -0,0 +1,179 @@
+import { MESH_LANDMARKS } from './facemesh';
+import { regionAround, regionStats, type GrayFrame } from './frame';
+import { KEYPOINTS, type NormalizedLandmark } from './mediapipe';
+
+export interface BlinkEvent {
+  timestamp: number;
+  durationMs: number;
+}
+
+export interface BlinkState {
+  // Latest eye openness measurement, null when no face is visible
+  openness: number | null;
+  // Running estimate of openness with the eyes open
+  baseline: number | null;
+  eyesClosed: boolean;
+  blinkCount: number;
+  lastBlinkAt: number | null;
+}
+
+export interface BlinkDetectorOptions {
+  // Openness below `baseline * closedRatio` counts as closed
+  closedRatio?: number;
+  minClosedMs?: number;
+  // Longer closures are treated as eyes shut or occluded, not a blink
+  maxClosedMs?: number;
+  baselineAlpha?: number;
+  warmupFrames?: number;
+}
+
+const DEFAULT_OPTIONS: Required<BlinkDetectorOptions> = {
+  closedRatio: 0.6,
+  minClosedMs: 20,
+  maxClosedMs: 500,
+  baselineAlpha: 0.05,
+  warmupFrames: 10,
+};
+
+// Eye patch size relative to the distance between both eyes
+const EYE_PATCH_WIDTH = 0.5;
+const EYE_PATCH_HEIGHT = 0.3;
+// Pixels darker than this fraction of the skin brightness count as iris, pupil or lashes
+const DARK_PIXEL_RATIO = 0.6;
+
+const darkFraction = (frame: GrayFrame, center: NormalizedLandmark, width: number, height: number, threshold: number) => {
+  const region = regionAround(frame, center, width, height);
+  let dark = 0;
+  let count = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      if (frame.data[y * frame.width + x] < threshold) dark++;
+      count++;
+    }
+  }
+
+  return count === 0 ? null : dark / count;
+};
+
+/**
+ * Estimates how open the eyes are from the pixels around the eye keypoints.
+ * The six-keypoint detector has no eyelid landmarks, so this measures the
+ * share of dark pixels (iris, pupil, lash line) in each eye patch relative to
+ * the skin brightness below the eyes. Only the change over time is meaningful.
+ */
+export const measureEyeOpenness = (frame: GrayFrame, landmarks: NormalizedLandmark[]): number | null => {
+  if (!landmarks || landmarks.length < 6) return null;
+
+  const rightEye = landmarks[KEYPOINTS.rightEye];
+  const leftEye = landmarks[KEYPOINTS.leftEye];
+  const nose = landmarks[KEYPOINTS.noseTip];
+  const eyeDistance = Math.hypot(leftEye.x - rightEye.x, leftEye.y - rightEye.y);
+  if (eyeDistance <= 0) return null;
+
+  // Skin reference between the eyes and the nose tip
+  const skinCenter = { x: nose.x, y: (nose.y + (rightEye.y + leftEye.y) / 2) / 2 };
+  const skin = regionStats(frame, regionAround(frame, skinCenter, eyeDistance * 0.3, eyeDistance * 0.2));
+  if (skin.count === 0) return null;
+
+  const threshold = skin.mean * DARK_PIXEL_RATIO;
+  const patchWidth = eyeDistance * EYE_PATCH_WIDTH;
+  const patchHeight = eyeDistance * EYE_PATCH_HEIGHT;
+
+  const right = darkFraction(frame, rightEye, patchWidth, patchHeight, threshold);
+  const left = darkFraction(frame, leftEye, patchWidth, patchHeight, threshold);
+  if (right === null || left === null) return null;
+
+  return (right + left) / 2;
+};
+
+/**
+ * Eye aspect ratio (EAR) averaged over both eyes, from the Face Mesh eyelid
+ * landmarks: the eyelid distance relative to the eye width, about 0.3 for open
+ * eyes and close to 0 for closed ones. `aspectRatio` is the frame's width over
+ * height, since the landmarks are normalized per axis.
+ */
+export const measureEyeAspectRatio = (mesh: NormalizedLandmark[], aspectRatio = 4 / 3): number | null => {
+  const distance = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot((a.x - b.x) * aspectRatio, a.y - b.y);
+
+  const ratios = [MESH_LANDMARKS.rightEye, MESH_LANDMARKS.leftEye].map(indices => {
+    const [p1, p2, p3, p4, p5, p6] = indices.map(index => mesh[index]);
+    if (!p1 || !p2 || !p3 || !p4 || !p5 || !p6) return null;
+
+    const width = distance(p1, p4);
+    return width > 0 ? (distance(p2, p6) + distance(p3, p5)) / (2 * width) : null;
+  });
+
+  const [right, left] = ratios;
+  return right === null || left === null ? null : (right + left) / 2;
+};
+
+/**
+ * Turns a stream of eye openness values into blink events. The open-eye
+ * baseline adapts over time, so the detector works with any openness measure
+ * where smaller means more closed (pixel-based or eye aspect ratio).
+ */
+export class BlinkDetector {
+  private options: Required<BlinkDetectorOptions>;
+  private state: BlinkState;
+  private closedSince: number | null = null;
+  private samples = 0;
+
+  constructor(options: BlinkDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.state = { openness: null, baseline: null, eyesClosed: false, blinkCount: 0, lastBlinkAt: null };
+  }
+
+  getState(): BlinkState {
+    return this.state;
+  }
+
+  reset() {
+    this.closedSince = null;
+    this.samples = 0;
+    this.state = { openness: null, baseline: null, eyesClosed: false, blinkCount: 0, lastBlinkAt: null };
+  }
+
+  update(openness: number | null, timestamp: number): BlinkEvent | null {
+    if (openness === null) {
+      this.closedSince = null;
+      this.state = { ...this.state, openness: null, eyesClosed: false };
+      return null;
+    }
+
+    const { baseline } = this.state;
+    this.samples++;
+
+    if (baseline === null || this.samples <= this.options.warmupFrames) {
+      const nextBaseline = baseline === null ? openness : baseline + (openness - baseline) / this.samples;
+      this.state = { ...this.state, openness, baseline: nextBaseline };
+      return null;
+    }
+
+    const closed = openness < baseline * this.options.closedRatio;
+    let event: BlinkEvent | null = null;
+
+    if (closed) {
+      this.closedSince ??= timestamp;
+    } else {
+      if (this.closedSince !== null) {
+        const durationMs = timestamp - this.closedSince;
+        if (durationMs >= this.options.minClosedMs && durationMs <= this.options.maxClosedMs) {
+          event = { timestamp, durationMs };
+        }
+        this.closedSince = null;
+      }
+    }
+
+    this.state = {
+      openness,
+      // Only track the baseline while the eyes are open
+      baseline: closed ? baseline : baseline + (openness - baseline) * this.options.baselineAlpha,
+      eyesClosed: closed,
+      blinkCount: this.state.blinkCount + (event ? 1 : 0),
+      lastBlinkAt: event ? timestamp : this.state.lastBlinkAt,
+    };
+
+    return event;
+  }
+}
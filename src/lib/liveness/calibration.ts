@@ -0,0 +1,205 @@
+import { readStoredJson, writeStoredJson } from './storage';
+import type { HeadPose } from './types';
+
+export type CalibrationStep = 'neutral' | 'left' | 'right' | 'up' | 'down';
+
+export interface RangeOfMotion {
+  left: number;
+  right: number;
+  up: number;
+  down: number;
+}
+
+/** A user's resting head pose and how far they can turn, both in degrees */
+export interface PoseCalibration {
+  neutral: HeadPose;
+  range: RangeOfMotion;
+  createdAt: number;
+}
+
+export type CalibrationStatus = 'idle' | 'running' | 'done' | 'cancelled';
+
+export interface CalibrationState {
+  status: CalibrationStatus;
+  step: CalibrationStep | null;
+  // 0..1 within the current step
+  progress: number;
+  // Set when the last attempt at the current step did not move far enough
+  hint: string | null;
+  calibration: PoseCalibration | null;
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = ['neutral', 'left', 'right', 'up', 'down'];
+
+export const CALIBRATION_LABELS: Record<CalibrationStep, string> = {
+  neutral: 'Look straight at the camera and hold still',
+  left: 'Turn your head left as far as is comfortable',
+  right: 'Turn your head right as far as is comfortable',
+  up: 'Look up as far as is comfortable',
+  down: 'Look down as far as is comfortable',
+};
+
+// Range of motion the default pose thresholds are tuned for
+const REFERENCE_RANGE: RangeOfMotion = { left: 45, right: 45, up: 30, down: 30 };
+
+// Limits on how much a calibration may stretch or shrink the thresholds
+const MIN_SCALE = 0.67;
+const MAX_SCALE = 1.5;
+
+const NEUTRAL_MS = 1500;
+const RANGE_STEP_MS = 2500;
+const MIN_RANGE_DEGREES = 10;
+
+const clampScale = (reference: number, measured: number) =>
+  Math.min(MAX_SCALE, Math.max(MIN_SCALE, reference / Math.max(measured, 1)));
+
+/**
+ * Expresses a pose relative to the user's calibration: the neutral pose is
+ * subtracted and each direction is scaled so that the user's full range maps
+ * onto the reference range the orientation thresholds assume.
+ */
+export const normalizePose = (pose: HeadPose, calibration: PoseCalibration | null): HeadPose => {
+  if (!calibration) return pose;
+
+  const { neutral, range } = calibration;
+  const yaw = pose.yaw - neutral.yaw;
+  const pitch = pose.pitch - neutral.pitch;
+
+  return {
+    yaw: yaw * (yaw > 0 ? clampScale(REFERENCE_RANGE.left, range.left) : clampScale(REFERENCE_RANGE.right, range.right)),
+    pitch: pitch * (pitch > 0 ? clampScale(REFERENCE_RANGE.up, range.up) : clampScale(REFERENCE_RANGE.down, range.down)),
+    roll: pose.roll - neutral.roll,
+  };
+};
+
+// Movement away from the neutral pose in the direction a step asks for
+const movement = (pose: HeadPose, neutral: HeadPose, step: Exclude<CalibrationStep, 'neutral'>) => {
+  switch (step) {
+    case 'left': return pose.yaw - neutral.yaw;
+    case 'right': return neutral.yaw - pose.yaw;
+    case 'up': return pose.pitch - neutral.pitch;
+    case 'down': return neutral.pitch - pose.pitch;
+  }
+};
+
+/**
+ * Guides the user through a short calibration: hold a neutral pose, then turn
+ * as far as comfortable in each direction. Feed it the uncalibrated pose of
+ * every frame; only frames with a face count towards a step's duration.
+ */
+export class PoseCalibrator {
+  private state: CalibrationState = { status: 'idle', step: null, progress: 0, hint: null, calibration: null };
+  private stepIndex = 0;
+  private stepElapsed = 0;
+  private lastTimestamp: number | null = null;
+  private neutralSamples: HeadPose[] = [];
+  private neutral: HeadPose | null = null;
+  private peak = 0;
+  private range: Partial<RangeOfMotion> = {};
+
+  getState(): CalibrationState {
+    return this.state;
+  }
+
+  start() {
+    this.stepIndex = 0;
+    this.neutralSamples = [];
+    this.neutral = null;
+    this.range = {};
+    this.beginStep();
+    this.state = { status: 'running', step: CALIBRATION_STEPS[0], progress: 0, hint: null, calibration: null };
+    return this.state;
+  }
+
+  cancel() {
+    if (this.state.status !== 'running') return this.state;
+    this.state = { ...this.state, status: 'cancelled', step: null, progress: 0 };
+    return this.state;
+  }
+
+  update(pose: HeadPose | null, timestamp: number) {
+    if (this.state.status !== 'running') return this.state;
+
+    const elapsed = this.lastTimestamp === null ? 0 : Math.max(0, timestamp - this.lastTimestamp);
+    this.lastTimestamp = timestamp;
+    if (!pose) return this.state;
+
+    const step = CALIBRATION_STEPS[this.stepIndex];
+    this.stepElapsed += elapsed;
+
+    if (step === 'neutral') {
+      this.neutralSamples.push(pose);
+      if (this.stepElapsed < NEUTRAL_MS) return this.setProgress(this.stepElapsed / NEUTRAL_MS);
+
+      this.neutral = averagePose(this.neutralSamples);
+      return this.nextStep();
+    }
+
+    this.peak = Math.max(this.peak, movement(pose, this.neutral as HeadPose, step));
+    if (this.stepElapsed < RANGE_STEP_MS) return this.setProgress(this.stepElapsed / RANGE_STEP_MS);
+
+    if (this.peak < MIN_RANGE_DEGREES) {
+      this.beginStep();
+      this.state = { ...this.state, progress: 0, hint: 'Please move a little further' };
+      return this.state;
+    }
+
+    this.range[step] = this.peak;
+    return this.nextStep();
+  }
+
+  private beginStep() {
+    this.stepElapsed = 0;
+    this.lastTimestamp = null;
+    this.peak = 0;
+  }
+
+  private setProgress(progress: number) {
+    this.state = { ...this.state, progress: Math.min(1, progress) };
+    return this.state;
+  }
+
+  private nextStep() {
+    this.stepIndex++;
+    this.beginStep();
+
+    if (this.stepIndex < CALIBRATION_STEPS.length) {
+      this.state = { ...this.state, step: CALIBRATION_STEPS[this.stepIndex], progress: 0, hint: null };
+      return this.state;
+    }
+
+    const calibration: PoseCalibration = {
+      neutral: this.neutral as HeadPose,
+      range: { ...REFERENCE_RANGE, ...this.range },
+      createdAt: Date.now(),
+    };
+    this.state = { status: 'done', step: null, progress: 1, hint: null, calibration };
+    return this.state;
+  }
+}
+
+const averagePose = (poses: HeadPose[]): HeadPose => {
+  const sum = poses.reduce(
+    (total, pose) => ({ yaw: total.yaw + pose.yaw, pitch: total.pitch + pose.pitch, roll: total.roll + pose.roll }),
+    { yaw: 0, pitch: 0, roll: 0 }
+  );
+  return { yaw: sum.yaw / poses.length, pitch: sum.pitch / poses.length, roll: sum.roll / poses.length };
+};
+
+const STORAGE_KEY = 'face-sense-check:calibration';
+
+const isPose = (value: unknown): value is HeadPose =>
+  !!value && ['yaw', 'pitch', 'roll'].every(axis => typeof (value as Record<string, unknown>)[axis] === 'number');
+
+export const loadCalibration = (): PoseCalibration | null => {
+  const parsed = readStoredJson(STORAGE_KEY) as Partial<PoseCalibration> | null;
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const range = parsed.range as Partial<RangeOfMotion> | undefined;
+  if (!isPose(parsed.neutral) || !range || !Object.keys(REFERENCE_RANGE).every(key => typeof range[key as keyof RangeOfMotion] === 'number')) {
+    return null;
+  }
+  return { neutral: parsed.neutral, range: range as RangeOfMotion, createdAt: Number(parsed.createdAt) || 0 };
+};
+
+export const saveCalibration = (calibration: PoseCalibration | null) => writeStoredJson(STORAGE_KEY, calibration);
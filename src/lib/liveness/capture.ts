@@ -0,0 +1,189 @@
+import { KEYPOINTS, type FaceDetectionResult } from './mediapipe';
+import type { QualityMetrics, QualityThresholds } from './quality';
+
+export interface CaptureOptions {
+  // Candidate frames kept at once; a better frame replaces the lowest-scoring one
+  capacity: number;
+  // Minimum time between accepted candidates, so they are spread over the session
+  minIntervalMs: number;
+  // Side of the square face crop in pixels
+  cropSize: number;
+  // Space added around the face box, relative to its size
+  cropMargin: number;
+  // Also encode the uncropped frame
+  includeFullFrame: boolean;
+  imageType: string;
+  imageQuality: number;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  capacity: 5,
+  minIntervalMs: 250,
+  cropSize: 256,
+  cropMargin: 0.6,
+  includeFullFrame: false,
+  imageType: 'image/jpeg',
+  imageQuality: 0.92,
+};
+
+/** Per-criterion scores in the 0..1 range and their weighted total */
+export interface FrameScore {
+  total: number;
+  sharpness: number;
+  size: number;
+  centering: number;
+  detection: number;
+}
+
+export interface CapturedFrame {
+  // Face cropped around the detection and rotated so the eyes are level
+  face: Blob;
+  fullFrame: Blob | null;
+  score: FrameScore;
+  timestamp: number;
+}
+
+interface Candidate {
+  bitmap: ImageBitmap;
+  face: FaceDetectionResult;
+  score: FrameScore;
+  timestamp: number;
+}
+
+const WEIGHTS = { sharpness: 0.35, size: 0.2, centering: 0.2, detection: 0.25 };
+
+// Sharpness at this multiple of the blur threshold scores as fully sharp
+const SHARPNESS_SATURATION = 4;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Rates a frame from its quality metrics and detection score */
+export const scoreFrame = (metrics: QualityMetrics, confidence: number, thresholds: QualityThresholds): FrameScore => {
+  const sharpness = metrics.sharpness === null ? 0 : clamp01(metrics.sharpness / (thresholds.minSharpness * SHARPNESS_SATURATION));
+
+  // Best halfway between too far and too close
+  const idealSize = (thresholds.minFaceSize + thresholds.maxFaceSize) / 2;
+  const size = metrics.faceSize === null ? 0 : clamp01(1 - Math.abs(metrics.faceSize - idealSize) / idealSize);
+
+  const offset = metrics.centerOffset;
+  const centering = offset === null ? 0 : clamp01(1 - Math.hypot(offset.x, offset.y) / (thresholds.maxCenterOffset * Math.SQRT2));
+
+  const detection = clamp01(confidence);
+  const total =
+    WEIGHTS.sharpness * sharpness + WEIGHTS.size * size + WEIGHTS.centering * centering + WEIGHTS.detection * detection;
+
+  return { total, sharpness, size, centering, detection };
+};
+
+/**
+ * Keeps a small set of candidate frames during a session and produces an
+ * aligned face crop of the best one. Candidates are the exact frames the
+ * detections came from, so the crop always matches the face box and landmarks.
+ */
+export class BestFrameSelector {
+  private candidates: Candidate[] = [];
+  private lastAcceptedAt: number | null = null;
+
+  constructor(private options: CaptureOptions = DEFAULT_CAPTURE_OPTIONS) {}
+
+  get size() {
+    return this.candidates.length;
+  }
+
+  /** Score of the best candidate so far, or null when there is none */
+  get bestScore() {
+    return this.best()?.score ?? null;
+  }
+
+  /**
+   * Adds the frame `face` was detected in if it beats the current candidates.
+   * Takes ownership of `bitmap` and closes it when it is not kept; returns whether it was.
+   */
+  offer(bitmap: ImageBitmap, face: FaceDetectionResult, score: FrameScore, timestamp: number) {
+    const last = this.lastAcceptedAt;
+    const worst = this.worst();
+    if (
+      (last !== null && timestamp >= last && timestamp - last < this.options.minIntervalMs) ||
+      (this.candidates.length >= this.options.capacity && worst && score.total <= worst.score.total)
+    ) {
+      bitmap.close();
+      return false;
+    }
+
+    this.lastAcceptedAt = timestamp;
+    if (this.candidates.length >= this.options.capacity && worst) {
+      this.candidates = this.candidates.filter(candidate => candidate !== worst);
+      worst.bitmap.close();
+    }
+    this.candidates.push({ bitmap, face, score, timestamp });
+    return true;
+  }
+
+  /** Encodes the best candidate, or resolves to null when no frame qualified */
+  async export(): Promise<CapturedFrame | null> {
+    const best = this.best();
+    if (!best) return null;
+
+    const face = await encode(alignFace(best.bitmap, best.face, this.options), this.options);
+    if (!face) return null;
+
+    const fullFrame = this.options.includeFullFrame ? await encode(toCanvas(best.bitmap), this.options) : null;
+    return { face, fullFrame, score: best.score, timestamp: best.timestamp };
+  }
+
+  reset() {
+    this.candidates.forEach(candidate => candidate.bitmap.close());
+    this.candidates = [];
+    this.lastAcceptedAt = null;
+  }
+
+  private best() {
+    return this.candidates.reduce<Candidate | null>((best, candidate) => (!best || candidate.score.total > best.score.total ? candidate : best), null);
+  }
+
+  private worst() {
+    return this.candidates.reduce<Candidate | null>((worst, candidate) => (!worst || candidate.score.total < worst.score.total ? candidate : worst), null);
+  }
+}
+
+const toCanvas = (bitmap: ImageBitmap) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+// Rotates the frame around the face center so the eyes are level, then crops a square around the face
+const alignFace = (bitmap: ImageBitmap, face: FaceDetectionResult, { cropSize, cropMargin }: CaptureOptions) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = cropSize;
+  canvas.height = cropSize;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const { width, height } = bitmap;
+  const box = face.boundingBox;
+  // The subject's right eye is on the left of the (unmirrored) image
+  const imageLeftEye = face.landmarks[KEYPOINTS.rightEye];
+  const imageRightEye = face.landmarks[KEYPOINTS.leftEye];
+  const angle =
+    imageLeftEye && imageRightEye
+      ? Math.atan2((imageRightEye.y - imageLeftEye.y) * height, (imageRightEye.x - imageLeftEye.x) * width)
+      : 0;
+
+  const side = Math.max(box.width * width, box.height * height) * (1 + cropMargin);
+  const scale = cropSize / side;
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, cropSize, cropSize);
+  ctx.translate(cropSize / 2, cropSize / 2);
+  ctx.rotate(-angle);
+  ctx.scale(scale, scale);
+  ctx.translate(-box.xCenter * width, -box.yCenter * height);
+  ctx.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+const encode = (canvas: HTMLCanvasElement, { imageType, imageQuality }: CaptureOptions) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, imageType, imageQuality));
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ChallengeSession, type ChallengeObservation } from './challenges';
+import type { FaceOrientation } from './types';
+
+// A recorded sequence at 30 fps, stamped with media time like the file sources
+const replay = (session: ChallengeSession, orientations: FaceOrientation[], fps = 30) =>
+  orientations.map((orientation, index) => {
+    const observation: ChallengeObservation = {
+      orientation,
+      confidence: 0.9,
+      timestamp: (index * 1000) / fps,
+      quality: { ok: true, guidance: null },
+    };
+    return session.update(observation);
+  });
+
+describe('ChallengeSession on a replayed sequence', () => {
+  it('times out a step on the media clock', () => {
+    const session = new ChallengeSession({ challenges: ['left'], stepTimeoutMs: 6000 });
+    session.start();
+
+    // Eight seconds of looking straight ahead
+    const states = replay(session, Array<FaceOrientation>(240).fill('straight'));
+    const state = states[states.length - 1];
+
+    expect(state.status).toBe('failed');
+    expect(state.verdict?.reasons[0]).toMatch(/Timed out waiting for 'left'/);
+    const [step] = state.results;
+    expect(step.startedAt).toBe(0);
+    expect(step.completedAt).toBeGreaterThan(6000);
+    expect(step.completedAt).toBeLessThan(6100);
+  });
+
+  it('records step timings on the media clock', () => {
+    const session = new ChallengeSession({ challenges: ['left'], holdMs: 600 });
+    session.start();
+
+    // One second straight ahead, then turning left
+    const states = replay(session, [...Array<FaceOrientation>(30).fill('straight'), ...Array<FaceOrientation>(30).fill('left')]);
+    const state = states[states.length - 1];
+
+    expect(state.status).toBe('passed');
+    const [step] = state.results;
+    expect(step.startedAt).toBe(0);
+    expect(step.completedAt - step.startedAt).toBeGreaterThanOrEqual(1600);
+    expect(step.completedAt - step.startedAt).toBeLessThan(2000);
+  });
+});
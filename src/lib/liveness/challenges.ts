@@ -0,0 +1,427 @@
+import { EXPRESSIONS, type Expression, type ExpressionReading } from './expressions';
+import type { QualityReport } from './quality';
+import type { SpoofAssessment } from './spoof';
+import type { FaceOrientation } from './types';
+
+export type Challenge = Exclude<FaceOrientation, 'none'> | 'blink' | Expression;
+
+export type ChallengeSessionStatus = 'idle' | 'running' | 'paused' | 'passed' | 'failed';
+
+export interface ChallengeObservation {
+  orientation: FaceOrientation;
+  confidence: number;
+  timestamp: number;
+  // Faces in view; several with orientation 'none' means the frame was rejected by the multi-face policy
+  faceCount?: number;
+  // True on the frame where a blink completed
+  blinked?: boolean;
+  // Expression readings, only available with the Face Mesh backend
+  expressions?: Partial<Record<Expression, Pick<ExpressionReading, 'active'>>> | null;
+  spoof?: Pick<SpoofAssessment, 'score'>;
+  quality?: Pick<QualityReport, 'ok' | 'guidance'>;
+}
+
+export interface ChallengeStepResult {
+  challenge: Challenge;
+  passed: boolean;
+  startedAt: number;
+  completedAt: number;
+  // Mean detection confidence while the pose was held
+  confidence: number;
+  reason?: string;
+}
+
+export interface ChallengeVerdict {
+  passed: boolean;
+  reasons: string[];
+  completedAt: number;
+}
+
+export interface ChallengeSessionState {
+  status: ChallengeSessionStatus;
+  seed: number;
+  challenges: Challenge[];
+  currentIndex: number;
+  stepStartedAt: number | null;
+  // 0..1, how much of the required hold time has been accumulated for the current step
+  holdProgress: number;
+  results: ChallengeStepResult[];
+  blinkCount: number;
+  // Latest session spoof score, null until the analyzer has enough evidence
+  spoofScore: number | null;
+  // Guidance shown while the step is paused because of poor image quality
+  qualityIssue: string | null;
+  verdict: ChallengeVerdict | null;
+}
+
+export interface ChallengeSessionOptions {
+  // Explicit sequence, e.g. issued by a server. Takes precedence over `seed`.
+  challenges?: Challenge[];
+  seed?: number;
+  length?: number;
+  // Inserts a blink step into generated sequences that do not contain one
+  requireBlink?: boolean;
+  // Inserts an expression step into generated sequences; needs the Face Mesh backend
+  includeExpression?: boolean;
+  stepTimeoutMs?: number;
+  holdMs?: number;
+  maxFaceLossMs?: number;
+  // How long image quality may stay poor before the session fails
+  maxPoorQualityMs?: number;
+  // Sessions whose spoof score ends above this value fail even if every step passed
+  maxSpoofScore?: number;
+}
+
+const CHALLENGE_POOL: Challenge[] = ['straight', 'left', 'right', 'up', 'down'];
+
+export const CHALLENGE_LABELS: Record<Challenge, string> = {
+  straight: 'Look straight ahead',
+  left: 'Turn your head left',
+  right: 'Turn your head right',
+  up: 'Look up',
+  down: 'Look down',
+  'tilt-left': 'Tilt your head to the left',
+  'tilt-right': 'Tilt your head to the right',
+  blink: 'Blink your eyes',
+  smile: 'Smile',
+  'open-mouth': 'Open your mouth',
+  'raise-eyebrows': 'Raise your eyebrows',
+  'puff-cheeks': 'Puff out your cheeks',
+};
+
+export const isExpressionChallenge = (challenge: Challenge | null): challenge is Expression =>
+  EXPRESSIONS.includes(challenge as Expression);
+
+const DEFAULT_OPTIONS = {
+  length: 3,
+  requireBlink: true,
+  includeExpression: false,
+  stepTimeoutMs: 6000,
+  holdMs: 600,
+  maxFaceLossMs: 2000,
+  maxPoorQualityMs: 10000,
+  maxSpoofScore: 0.6,
+};
+
+// mulberry32: small deterministic PRNG so the same seed always yields the same sequence
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = () => {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 0xffffffff);
+};
+
+/**
+ * Generates a random challenge sequence. Consecutive steps never repeat and the
+ * first step is never 'straight', so every step requires an actual head movement.
+ */
+export const generateChallenges = (seed: number, length = DEFAULT_OPTIONS.length, pool: Challenge[] = CHALLENGE_POOL) => {
+  const random = createRandom(seed);
+  const challenges: Challenge[] = [];
+  let previous: Challenge = 'straight';
+
+  for (let i = 0; i < length; i++) {
+    const candidates = pool.filter(challenge => challenge !== previous);
+    const next = candidates[Math.floor(random() * candidates.length)];
+    challenges.push(next);
+    previous = next;
+  }
+
+  return challenges;
+};
+
+/** Inserts a blink step at a seeded random position unless the sequence already has one */
+export const insertBlinkChallenge = (seed: number, challenges: Challenge[]) => {
+  if (challenges.includes('blink')) return challenges;
+
+  // Offset the seed so the position is independent of the generated directions
+  const random = createRandom(seed ^ 0x5bd1e995);
+  const index = Math.floor(random() * (challenges.length + 1));
+  return [...challenges.slice(0, index), 'blink' as const, ...challenges.slice(index)];
+};
+
+/** Inserts one seeded random expression step at a seeded random position unless the sequence already has one */
+export const insertExpressionChallenge = (seed: number, challenges: Challenge[]) => {
+  if (challenges.some(isExpressionChallenge)) return challenges;
+
+  const random = createRandom(seed ^ 0x27d4eb2f);
+  const expression = EXPRESSIONS[Math.floor(random() * EXPRESSIONS.length)];
+  const index = Math.floor(random() * (challenges.length + 1));
+  return [...challenges.slice(0, index), expression, ...challenges.slice(index)];
+};
+
+/**
+ * Tracks a challenge-response sequence against the detection stream and ends
+ * in a pass/fail verdict. Feed it every frame via `update`, including frames
+ * without a face, so timeouts are evaluated even when nothing is detected.
+ * While the observed image quality is poor the current step is paused: no
+ * progress is made and its timeout does not run.
+ */
+export class ChallengeSession {
+  private options: typeof DEFAULT_OPTIONS;
+  private state: ChallengeSessionState;
+  private holdStartedAt: number | null = null;
+  private holdConfidences: number[] = [];
+  private faceLostAt: number | null = null;
+  private poorQualitySince: number | null = null;
+  private lastUpdateAt: number | null = null;
+  // Time the current step spent paused on poor quality or by the user, excluded from its timeout
+  private pausedMs = 0;
+  private resumed = false;
+
+  constructor(options: ChallengeSessionOptions = {}) {
+    this.options = {
+      length: options.length ?? DEFAULT_OPTIONS.length,
+      requireBlink: options.requireBlink ?? DEFAULT_OPTIONS.requireBlink,
+      includeExpression: options.includeExpression ?? DEFAULT_OPTIONS.includeExpression,
+      stepTimeoutMs: options.stepTimeoutMs ?? DEFAULT_OPTIONS.stepTimeoutMs,
+      holdMs: options.holdMs ?? DEFAULT_OPTIONS.holdMs,
+      maxFaceLossMs: options.maxFaceLossMs ?? DEFAULT_OPTIONS.maxFaceLossMs,
+      maxPoorQualityMs: options.maxPoorQualityMs ?? DEFAULT_OPTIONS.maxPoorQualityMs,
+      maxSpoofScore: options.maxSpoofScore ?? DEFAULT_OPTIONS.maxSpoofScore,
+    };
+
+    const seed = options.seed ?? createSeed();
+    let challenges = options.challenges?.length
+      ? [...options.challenges]
+      : generateChallenges(seed, this.options.length);
+
+    if (!options.challenges?.length && this.options.requireBlink) {
+      challenges = insertBlinkChallenge(seed, challenges);
+    }
+    if (!options.challenges?.length && this.options.includeExpression) {
+      challenges = insertExpressionChallenge(seed, challenges);
+    }
+
+    this.state = {
+      status: 'idle',
+      seed,
+      challenges,
+      currentIndex: 0,
+      stepStartedAt: null,
+      holdProgress: 0,
+      results: [],
+      blinkCount: 0,
+      spoofScore: null,
+      qualityIssue: null,
+      verdict: null,
+    };
+  }
+
+  getState(): ChallengeSessionState {
+    return this.state;
+  }
+
+  get currentChallenge(): Challenge | null {
+    return this.state.challenges[this.state.currentIndex] ?? null;
+  }
+
+  /**
+   * Without `now`, the first step starts at the first observation's timestamp,
+   * so the session runs on the clock of whatever source feeds it: wall time for
+   * the camera, media time for replayed files.
+   */
+  start(now: number | null = null) {
+    if (this.state.status !== 'idle') return this.state;
+
+    this.state = { ...this.state, status: 'running', stepStartedAt: now };
+    return this.state;
+  }
+
+  cancel(reason = 'Session cancelled', now = this.lastUpdateAt ?? Date.now()) {
+    if (this.state.status !== 'running' && this.state.status !== 'paused') return this.state;
+    return this.fail(reason, now);
+  }
+
+  /** Freezes the session while detection is paused; the current step restarts its hold on resume */
+  pause() {
+    if (this.state.status !== 'running') return this.state;
+
+    this.resetHold();
+    this.state = { ...this.state, status: 'paused', holdProgress: 0 };
+    return this.state;
+  }
+
+  resume() {
+    if (this.state.status !== 'paused') return this.state;
+
+    // The gap until the next observation is excluded from the step timeout
+    this.resumed = true;
+    this.state = { ...this.state, status: 'running' };
+    return this.state;
+  }
+
+  update(observation: ChallengeObservation) {
+    if (this.state.status !== 'running') return this.state;
+
+    const now = observation.timestamp;
+    const challenge = this.currentChallenge;
+    const stepStartedAt = this.state.stepStartedAt ?? now;
+    if (this.state.stepStartedAt === null) this.state = { ...this.state, stepStartedAt };
+    const sinceLastUpdate = now - (this.lastUpdateAt ?? now);
+    this.lastUpdateAt = now;
+
+    if (this.resumed) {
+      this.resumed = false;
+      this.pausedMs += sinceLastUpdate;
+      this.faceLostAt = null;
+      this.poorQualitySince = null;
+    }
+
+    if (observation.blinked) {
+      this.state = { ...this.state, blinkCount: this.state.blinkCount + 1 };
+    }
+    if (observation.spoof && observation.spoof.score !== null) {
+      this.state = { ...this.state, spoofScore: observation.spoof.score };
+    }
+
+    // Frames without a face are handled by the face-loss timeout below
+    const { quality } = observation;
+    if (quality && !quality.ok && observation.orientation !== 'none') {
+      this.faceLostAt = null;
+      this.poorQualitySince ??= now;
+      this.pausedMs += sinceLastUpdate;
+      this.resetHold();
+
+      const guidance = quality.guidance ?? 'Poor image quality';
+      if (now - this.poorQualitySince > this.options.maxPoorQualityMs) {
+        return this.fail(`Image quality too poor: ${guidance}`, now);
+      }
+
+      this.state = { ...this.state, holdProgress: 0, qualityIssue: guidance };
+      return this.state;
+    }
+    this.poorQualitySince = null;
+
+    // Blink steps have no pose to hold; they complete on the blink itself
+    if (challenge === 'blink' && observation.blinked) {
+      this.holdConfidences.push(observation.confidence);
+      return this.completeStep(now);
+    }
+
+    if (observation.orientation === 'none') {
+      this.faceLostAt ??= now;
+      this.resetHold();
+      if (now - this.faceLostAt > this.options.maxFaceLossMs) {
+        const seconds = (this.options.maxFaceLossMs / 1000).toFixed(1);
+        return this.fail(
+          (observation.faceCount ?? 0) > 1 ? `Multiple faces in view for more than ${seconds}s` : `Face lost for more than ${seconds}s`,
+          now
+        );
+      }
+    } else {
+      this.faceLostAt = null;
+
+      // Expressions are held like poses, whatever the head orientation
+      const performing = isExpressionChallenge(challenge)
+        ? observation.expressions?.[challenge]?.active === true
+        : observation.orientation === challenge;
+
+      if (performing) {
+        this.holdStartedAt ??= now;
+        this.holdConfidences.push(observation.confidence);
+      } else {
+        this.resetHold();
+      }
+    }
+
+    const heldFor = this.holdStartedAt === null ? 0 : now - this.holdStartedAt;
+
+    if (this.holdStartedAt !== null && heldFor >= this.options.holdMs) {
+      return this.completeStep(now);
+    }
+
+    if (now - stepStartedAt - this.pausedMs > this.options.stepTimeoutMs) {
+      return this.fail(`Timed out waiting for '${challenge}' after ${(this.options.stepTimeoutMs / 1000).toFixed(1)}s`, now);
+    }
+
+    this.state = { ...this.state, holdProgress: Math.min(1, heldFor / this.options.holdMs), qualityIssue: null };
+    return this.state;
+  }
+
+  private completeStep(now: number) {
+    const result: ChallengeStepResult = {
+      challenge: this.currentChallenge as Challenge,
+      passed: true,
+      startedAt: this.state.stepStartedAt ?? now,
+      completedAt: now,
+      confidence: average(this.holdConfidences),
+    };
+    const results = [...this.state.results, result];
+    const currentIndex = this.state.currentIndex + 1;
+
+    this.resetHold();
+    this.pausedMs = 0;
+
+    if (currentIndex >= this.state.challenges.length) {
+      const { spoofScore } = this.state;
+      if (spoofScore !== null && spoofScore > this.options.maxSpoofScore) {
+        this.state = { ...this.state, currentIndex, results };
+        return this.fail(`Presentation attack suspected (spoof score ${spoofScore.toFixed(2)})`, now);
+      }
+
+      this.state = {
+        ...this.state,
+        status: 'passed',
+        currentIndex,
+        holdProgress: 0,
+        stepStartedAt: null,
+        qualityIssue: null,
+        results,
+        verdict: { passed: true, reasons: [], completedAt: now },
+      };
+      return this.state;
+    }
+
+    this.state = { ...this.state, currentIndex, holdProgress: 0, stepStartedAt: now, qualityIssue: null, results };
+    return this.state;
+  }
+
+  private fail(reason: string, now: number) {
+    const challenge = this.currentChallenge;
+    const results = challenge
+      ? [
+          ...this.state.results,
+          {
+            challenge,
+            passed: false,
+            startedAt: this.state.stepStartedAt ?? now,
+            completedAt: now,
+            confidence: average(this.holdConfidences),
+            reason,
+          },
+        ]
+      : this.state.results;
+
+    this.resetHold();
+    this.state = {
+      ...this.state,
+      status: 'failed',
+      holdProgress: 0,
+      stepStartedAt: null,
+      qualityIssue: null,
+      results,
+      verdict: { passed: false, reasons: [reason], completedAt: now },
+    };
+    return this.state;
+  }
+
+  private resetHold() {
+    this.holdStartedAt = null;
+    this.holdConfidences = [];
+  }
+}
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
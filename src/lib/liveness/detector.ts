@@ -0,0 +1,177 @@
+import { FrameSampler, type GrayFrame } from './frame';
+import { DEFAULT_DETECTOR_BACKEND, type DetectorBackend, type FaceDetectionOptions, type FaceDetectionResult } from './mediapipe';
+import { FaceSolutionHost } from './solutions';
+import type { FrameImage } from './sources';
+
+export interface DetectorOutput {
+  detections: FaceDetectionResult[];
+  // Downscaled grayscale copy of the frame for the pixel-based analysis
+  gray: GrayFrame | null;
+  // The exact frame that was analysed, when requested with `keepFrame`; the receiver closes it
+  frame: ImageBitmap | null;
+}
+
+/**
+ * Runs face detection on frames. Only one frame is processed at a time: frames
+ * submitted while the detector is busy are dropped rather than queued, so a
+ * slow device falls behind in frame rate instead of in latency.
+ */
+export interface FrameDetector {
+  readonly kind: 'main-thread' | 'worker';
+  // Backend selected by the latest options; switching it takes effect on the next frame
+  readonly backend: DetectorBackend;
+  // Resolves to null when the frame was dropped
+  detect(image: FrameImage, timestamp: number, keepFrame?: boolean): Promise<DetectorOutput | null>;
+  // Options are merged into the current ones; a different `backend` replaces the MediaPipe graph
+  configure(options: FaceDetectionOptions): void;
+  close(): Promise<void>;
+}
+
+// Messages exchanged with detector.worker.ts
+export type DetectorRequest =
+  | { type: 'configure'; options: FaceDetectionOptions }
+  | { type: 'detect'; id: number; frame: ImageBitmap | VideoFrame; keepFrame: boolean };
+
+export type DetectorResponse =
+  | { type: 'result'; id: number; output: DetectorOutput }
+  | { type: 'error'; id: number | null; message: string };
+
+/** Runs MediaPipe on the main thread; used where workers with OffscreenCanvas are unavailable */
+export class MainThreadDetector implements FrameDetector {
+  readonly kind = 'main-thread';
+  private solutions: FaceSolutionHost;
+  private sampler = new FrameSampler();
+  private busy = false;
+
+  constructor(options: FaceDetectionOptions) {
+    this.solutions = new FaceSolutionHost(options);
+  }
+
+  get backend() {
+    return this.solutions.backend;
+  }
+
+  async detect(image: FrameImage, _timestamp: number, keepFrame = false): Promise<DetectorOutput | null> {
+    if (this.busy) return null;
+
+    this.busy = true;
+    // A kept frame is copied first and analysed instead of the live element, which may move on meanwhile
+    let frame: ImageBitmap | null = null;
+    try {
+      frame = keepFrame ? await createImageBitmap(image) : null;
+      const input = frame ?? image;
+      const detections = await this.solutions.detect(input);
+      return { detections, gray: this.sampler.capture(input), frame };
+    } catch (err) {
+      frame?.close();
+      throw err;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  configure(options: FaceDetectionOptions) {
+    this.solutions.configure(options);
+  }
+
+  close() {
+    return this.solutions.close();
+  }
+}
+
+/**
+ * Runs MediaPipe and frame sampling in a dedicated worker. Video frames are
+ * transferred as `VideoFrame`s where supported and as `ImageBitmap`s otherwise.
+ */
+export class WorkerDetector implements FrameDetector {
+  readonly kind = 'worker';
+  private worker: Worker;
+  private pending: { id: number; resolve: (output: DetectorOutput) => void; reject: (err: Error) => void } | null = null;
+  private nextId = 0;
+  private failure: Error | null = null;
+  private options: FaceDetectionOptions = {};
+
+  constructor(options: FaceDetectionOptions) {
+    this.worker = new Worker(new URL('./detector.worker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<DetectorResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = event => this.handleMessage({ type: 'error', id: null, message: event.message || 'Detector worker failed' });
+    this.configure(options);
+  }
+
+  async detect(image: FrameImage, timestamp: number, keepFrame = false): Promise<DetectorOutput | null> {
+    if (this.failure) throw this.failure;
+    if (this.pending) return null;
+
+    const id = this.nextId++;
+    const result = new Promise<DetectorOutput>((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+    });
+
+    try {
+      const frame = await captureFrame(image, timestamp);
+      this.post({ type: 'detect', id, frame, keepFrame }, [frame]);
+    } catch (err) {
+      this.pending = null;
+      throw err;
+    }
+    return result;
+  }
+
+  get backend() {
+    return this.options.backend ?? DEFAULT_DETECTOR_BACKEND;
+  }
+
+  configure(options: FaceDetectionOptions) {
+    this.options = { ...this.options, ...options };
+    this.post({ type: 'configure', options });
+  }
+
+  async close() {
+    // Terminating frees the worker's MediaPipe graph along with everything else it holds
+    this.worker.terminate();
+    this.pending?.reject(new Error('Detector closed'));
+    this.pending = null;
+  }
+
+  private post(message: DetectorRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: DetectorResponse) {
+    const pending = this.pending;
+
+    if (message.type === 'error') {
+      const error = new Error(message.message);
+      // Errors outside a frame (e.g. the model failing to load) make the detector unusable
+      if (message.id === null) this.failure = error;
+      if (pending && (message.id === null || message.id === pending.id)) {
+        this.pending = null;
+        pending.reject(error);
+      }
+      return;
+    }
+
+    if (pending?.id === message.id) {
+      this.pending = null;
+      pending.resolve(message.output);
+    }
+  }
+}
+
+const captureFrame = (image: FrameImage, timestamp: number): Promise<ImageBitmap | VideoFrame> => {
+  if (image instanceof HTMLVideoElement && typeof VideoFrame !== 'undefined') {
+    // VideoFrame timestamps are in microseconds
+    return Promise.resolve(new VideoFrame(image, { timestamp: Math.round(timestamp * 1000) }));
+  }
+  return createImageBitmap(image);
+};
+
+// The dev server only serves module workers, where MediaPipe can't load its WASM glue,
+// so detection stays on the main thread there; builds bundle the worker as a classic script
+export const supportsWorkerDetection = () =>
+  !import.meta.env.DEV &&
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/** Prefers the worker detector and falls back to the main thread where it is unsupported */
+export const createDetector = (options: FaceDetectionOptions, preferWorker = true): FrameDetector =>
+  preferWorker && supportsWorkerDetection() ? new WorkerDetector(options) : new MainThreadDetector(options);
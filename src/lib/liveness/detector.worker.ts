@@ -0,0 +1,50 @@
+// Face detection worker used by `WorkerDetector`. Runs the MediaPipe graph on an
+// OffscreenCanvas and returns detections together with a downscaled grayscale
+// frame, so the main thread only has to analyse landmarks and draw overlays.
+// It is built as a classic worker because MediaPipe loads its WASM glue from the
+// locally served files with importScripts, which module workers don't support.
+
+import type { DetectorRequest, DetectorResponse } from './detector';
+import { FrameSampler } from './frame';
+import { FaceSolutionHost } from './solutions';
+
+const solutions = new FaceSolutionHost();
+const sampler = new FrameSampler();
+
+const post = (message: DetectorResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const detect = async (id: number, frame: ImageBitmap | VideoFrame, keepFrame: boolean) => {
+  // MediaPipe sizes its input texture from `width`/`height`, which VideoFrame lacks
+  const image = frame instanceof ImageBitmap ? frame : await createImageBitmap(frame);
+  if (image !== frame) frame.close();
+
+  try {
+    const detections = await solutions.detect(image);
+    const gray = sampler.capture(image);
+    const transfer: Transferable[] = gray ? [gray.data.buffer] : [];
+    // A kept frame is transferred back, which detaches it here
+    if (keepFrame) transfer.push(image);
+    post({ type: 'result', id, output: { detections, gray, frame: keepFrame ? image : null } }, transfer);
+  } finally {
+    image.close();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<DetectorRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'configure':
+      solutions.configure(message.options);
+      break;
+    case 'detect':
+      try {
+        await detect(message.id, message.frame, message.keepFrame);
+      } catch (err) {
+        post({ type: 'error', id: message.id, message: err instanceof Error ? err.message : 'Detection failed' });
+      }
+      break;
+  }
+};
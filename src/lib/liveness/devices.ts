@@ -0,0 +1,59 @@
+import { readStoredJson, writeStoredJson } from './storage';
+
+export type FacingMode = 'user' | 'environment';
+
+export type ResolutionPreset = '480p' | '720p' | '1080p';
+
+export interface CameraPreferences {
+  // Specific camera to use; null lets the browser pick based on `facingMode`
+  deviceId: string | null;
+  facingMode: FacingMode;
+  resolution: ResolutionPreset;
+}
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { width: number; height: number; label: string }> = {
+  '480p': { width: 640, height: 480, label: '640 × 480' },
+  '720p': { width: 1280, height: 720, label: '1280 × 720' },
+  '1080p': { width: 1920, height: 1080, label: '1920 × 1080' },
+};
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  facingMode: 'user',
+  resolution: '480p',
+};
+
+const STORAGE_KEY = 'face-sense-check:camera';
+
+export const loadCameraPreferences = (): CameraPreferences => {
+  const parsed = readStoredJson(STORAGE_KEY) as Partial<CameraPreferences> | null;
+  if (!parsed || typeof parsed !== 'object') return DEFAULT_CAMERA_PREFERENCES;
+
+  return {
+    deviceId: typeof parsed.deviceId === 'string' ? parsed.deviceId : null,
+    facingMode: parsed.facingMode === 'environment' ? 'environment' : 'user',
+    resolution: parsed.resolution && parsed.resolution in RESOLUTION_PRESETS ? parsed.resolution : DEFAULT_CAMERA_PREFERENCES.resolution,
+  };
+};
+
+export const saveCameraPreferences = (preferences: CameraPreferences) => writeStoredJson(STORAGE_KEY, preferences);
+
+export const buildVideoConstraints = (preferences: CameraPreferences): MediaTrackConstraints => {
+  const { width, height } = RESOLUTION_PRESETS[preferences.resolution];
+
+  return {
+    width: { ideal: width },
+    height: { ideal: height },
+    ...(preferences.deviceId
+      ? { deviceId: { exact: preferences.deviceId } }
+      : { facingMode: preferences.facingMode }),
+  };
+};
+
+/** Video inputs visible to the page. Labels stay empty until camera permission is granted. */
+export const listVideoInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+};
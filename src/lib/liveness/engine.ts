@@ -0,0 +1,665 @@
+import { normalizePose, type PoseCalibration } from './calibration';
+import { BlinkDetector, measureEyeAspectRatio, measureEyeOpenness, type BlinkEvent, type BlinkState } from './blink';
+import { BestFrameSelector, DEFAULT_CAPTURE_OPTIONS, scoreFrame, type CaptureOptions, type CapturedFrame } from './capture';
+import { createDetector, type DetectorOutput, type FrameDetector } from './detector';
+import { checkDetectorSupport, LivenessError, toDetectorError } from './errors';
+import { TypedEventEmitter } from './events';
+import { DEFAULT_EXPRESSION_THRESHOLDS, ExpressionAnalyzer, type ExpressionState, type ExpressionThresholds } from './expressions';
+import { FaceSelector, type MultiFacePolicy } from './faces';
+import { assessFraming, DEFAULT_FRAMING_GUIDE, getFramingOval, type FramingGuide, type FramingReport } from './framing';
+import type { DetectorBackend, FaceDetectionOptions, FaceDetectionResult, NormalizedLandmark } from './mediapipe';
+import {
+  classifyOrientation,
+  DEFAULT_POSE_THRESHOLDS,
+  DEFAULT_STABILIZER_OPTIONS,
+  OrientationStabilizer,
+  type PoseThresholds,
+  type StabilizerOptions,
+} from './orientation';
+import { drawFace, drawFramingGuide, drawMetrics, drawOtherFace, drawVideoFrame } from './overlay';
+import { estimateHeadPose } from './pose';
+import { assessQuality, DEFAULT_QUALITY_THRESHOLDS, type QualityReport, type QualityThresholds } from './quality';
+import { DEFAULT_SCHEDULER_OPTIONS, FrameScheduler, type SchedulerOptions } from './scheduler';
+import { getFrameSize, type FrameImage, type FrameSource } from './sources';
+import { DEFAULT_ONE_EURO_OPTIONS, LandmarkSmoother, type OneEuroOptions } from './smoothing';
+import { SpoofAnalyzer, type SpoofAssessment } from './spoof';
+import { PerformanceMonitor, type PerformanceMetrics } from './telemetry';
+import type { Detection, FaceOrientation, HeadPose } from './types';
+
+export type LivenessEngineStatus = 'idle' | 'starting' | 'running' | 'paused' | 'stopped' | 'error';
+
+export interface LivenessFrame {
+  timestamp: number;
+  // Stabilized orientation and pose from the smoothed landmarks, relative to the user's calibration
+  orientation: FaceOrientation;
+  confidence: number;
+  pose: HeadPose | null;
+  // Per-frame values before smoothing and hysteresis, for debugging
+  raw: {
+    orientation: FaceOrientation;
+    pose: HeadPose | null;
+  };
+  face: FaceDetectionResult | null;
+  // Faces detected in the frame, whether or not one was selected
+  faceCount: number;
+  // True when several faces were visible and the multi-face policy discarded the frame
+  multipleFaces: boolean;
+  blink: BlinkState;
+  // True on the frame where a blink completed
+  blinked: boolean;
+  // Facial expressions, null unless the Face Mesh backend is tracking a face
+  expressions: ExpressionState | null;
+  spoof: SpoofAssessment;
+  quality: QualityReport;
+  // How well the face sits in the framing oval
+  framing: FramingReport;
+}
+
+export interface LivenessEngineEvents {
+  status: LivenessEngineStatus;
+  frame: LivenessFrame;
+  detection: Detection;
+  blink: BlinkEvent;
+  // Published at most every METRICS_INTERVAL_MS while frames are flowing
+  metrics: PerformanceMetrics;
+  error: LivenessError;
+}
+
+export interface LivenessEngineOptions {
+  // Face detection (six keypoints) or Face Mesh (468 landmarks, eyelid-based blinks); switchable at runtime
+  backend?: DetectorBackend;
+  model?: 'short' | 'full';
+  minDetectionConfidence?: number;
+  // Run detection in a Web Worker where supported
+  worker?: boolean;
+  multiFacePolicy?: MultiFacePolicy;
+  poseThresholds?: PoseThresholds;
+  calibration?: PoseCalibration | null;
+  smoothing?: OneEuroOptions;
+  stabilizer?: StabilizerOptions;
+  qualityThresholds?: QualityThresholds;
+  // Oval the user is asked to fit their face into, in preview coordinates
+  framingGuide?: FramingGuide;
+  showFramingGuide?: boolean;
+  // Only used with the Face Mesh backend
+  expressionThresholds?: ExpressionThresholds;
+  // Best-frame capture while `startCapture` is active
+  capture?: CaptureOptions;
+  // Throttles detection while the face is absent or still; detection always pauses while the page is hidden
+  powerSaving?: boolean;
+  scheduler?: SchedulerOptions;
+  historyLength?: number;
+  // Draws the preview like a selfie camera; analysis and orientations are unaffected
+  mirrored?: boolean;
+  // Largest size the canvas is rendered at; frames are scaled down to fit
+  width?: number;
+  height?: number;
+  // Draws performance metrics onto the canvas
+  debugOverlay?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<LivenessEngineOptions> = {
+  backend: 'face-detection',
+  model: 'short',
+  minDetectionConfidence: 0.5,
+  worker: true,
+  multiFacePolicy: 'reject',
+  poseThresholds: DEFAULT_POSE_THRESHOLDS,
+  calibration: null,
+  smoothing: DEFAULT_ONE_EURO_OPTIONS,
+  stabilizer: DEFAULT_STABILIZER_OPTIONS,
+  qualityThresholds: DEFAULT_QUALITY_THRESHOLDS,
+  framingGuide: DEFAULT_FRAMING_GUIDE,
+  showFramingGuide: true,
+  expressionThresholds: DEFAULT_EXPRESSION_THRESHOLDS,
+  capture: DEFAULT_CAPTURE_OPTIONS,
+  powerSaving: true,
+  scheduler: DEFAULT_SCHEDULER_OPTIONS,
+  historyLength: 10,
+  mirrored: true,
+  width: 640,
+  height: 480,
+  debugOverlay: false,
+};
+
+const METRICS_INTERVAL_MS = 500;
+
+// Option groups are flat objects, and callers build new ones on every update
+const sameOptions = <T extends object>(a: T, b: T) =>
+  a === b || (Object.keys(a).length === Object.keys(b).length && Object.keys(a).every((key) => a[key as keyof T] === b[key as keyof T]));
+
+/**
+ * Framework-agnostic face orientation engine. Owns the face detector and the
+ * camera, classifies every frame and emits typed events. When a canvas is
+ * attached the engine also renders every frame with the latest face overlay.
+ */
+export class LivenessEngine extends TypedEventEmitter<LivenessEngineEvents> {
+  private options: Required<LivenessEngineOptions>;
+  private detector: FrameDetector | null = null;
+  private source: FrameSource | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  // Faces from the latest detection, redrawn on every rendered frame
+  private overlay: {
+    face: FaceDetectionResult | null;
+    others: FaceDetectionResult[];
+    orientation: FaceOrientation;
+    framing: FramingReport;
+  } | null = null;
+  private history: Detection[] = [];
+  private faceSelector: FaceSelector;
+  private smoother: LandmarkSmoother;
+  private stabilizer: OrientationStabilizer;
+  private scheduler: FrameScheduler;
+  // Set while a challenge or calibration step needs full-rate detection
+  private active = false;
+  private blinkDetector = new BlinkDetector();
+  private expressionAnalyzer: ExpressionAnalyzer;
+  private spoofAnalyzer = new SpoofAnalyzer();
+  private bestFrames: BestFrameSelector;
+  private capturing = false;
+  private monitor = new PerformanceMonitor();
+  private metrics: PerformanceMetrics | null = null;
+  private lastMetricsAt = 0;
+  private _status: LivenessEngineStatus = 'idle';
+
+  constructor(options: LivenessEngineOptions = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.faceSelector = new FaceSelector({ policy: this.options.multiFacePolicy });
+    this.smoother = new LandmarkSmoother(this.options.smoothing);
+    this.stabilizer = new OrientationStabilizer(this.options.poseThresholds, this.options.stabilizer);
+    this.scheduler = this.createScheduler();
+    this.bestFrames = new BestFrameSelector(this.options.capture);
+    this.expressionAnalyzer = new ExpressionAnalyzer(this.options.expressionThresholds);
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get currentSource() {
+    return this.source;
+  }
+
+  get backend() {
+    return this.options.backend;
+  }
+
+  get calibration() {
+    return this.options.calibration;
+  }
+
+  /** Where detection runs, or null before the first start */
+  get detectorKind() {
+    return this.detector?.kind ?? null;
+  }
+
+  /** Current detection rate mode, or null when power saving is off */
+  get schedulerMode() {
+    if (this.scheduler.mode === 'hidden') return 'hidden';
+    return this.options.powerSaving ? this.scheduler.mode : null;
+  }
+
+  /** Frame-rate and latency measurements since the current source was started */
+  getMetrics(): PerformanceMetrics {
+    return this.monitor.snapshot(this.detectorKind, this.schedulerMode);
+  }
+
+  setDebugOverlay(enabled: boolean) {
+    this.options = { ...this.options, debugOverlay: enabled };
+  }
+
+  setPowerSaving(enabled: boolean) {
+    this.options = { ...this.options, powerSaving: enabled };
+  }
+
+  /** Runs detection at the full rate, e.g. while a challenge step is in progress */
+  setActive(active: boolean) {
+    this.active = active;
+    this.scheduler.setActive(active);
+  }
+
+  /**
+   * Updates options on a running engine. Detector options are applied to the
+   * existing MediaPipe graph, so no restart is needed.
+   */
+  configure(options: LivenessEngineOptions) {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+
+    this.detector?.configure(this.detectorOptions());
+    // Openness from another backend is on a different scale
+    if (this.options.backend !== previous.backend) this.blinkDetector.reset();
+    // The rest hold tracking state (locked face, baselines, filters, dwell), so only rebuild what changed
+    if (!sameOptions(this.options.expressionThresholds, previous.expressionThresholds)) {
+      this.expressionAnalyzer = new ExpressionAnalyzer(this.options.expressionThresholds);
+    }
+    if (this.options.multiFacePolicy !== previous.multiFacePolicy) {
+      this.faceSelector = new FaceSelector({ policy: this.options.multiFacePolicy });
+    }
+    if (!sameOptions(this.options.smoothing, previous.smoothing)) this.smoother = new LandmarkSmoother(this.options.smoothing);
+    if (!sameOptions(this.options.poseThresholds, previous.poseThresholds) || !sameOptions(this.options.stabilizer, previous.stabilizer)) {
+      this.stabilizer = new OrientationStabilizer(this.options.poseThresholds, this.options.stabilizer);
+    }
+    if (!sameOptions(this.options.scheduler, previous.scheduler)) this.scheduler = this.createScheduler();
+    this.history = this.history.slice(-this.options.historyLength);
+  }
+
+  /** Classifies poses relative to a user's neutral pose and range of motion; null uses the raw pose */
+  setCalibration(calibration: PoseCalibration | null) {
+    this.options = { ...this.options, calibration };
+    this.stabilizer.reset();
+  }
+
+  getHistory(): Detection[] {
+    return this.history;
+  }
+
+  resetHistory() {
+    this.history = [];
+    this.blinkDetector.reset();
+    this.expressionAnalyzer.reset();
+    this.faceSelector.reset();
+    this.smoother.reset();
+    this.stabilizer.reset();
+    this.scheduler.reset();
+  }
+
+  /** Starts a fresh spoof assessment, e.g. at the beginning of a challenge session */
+  resetSpoofAnalysis() {
+    this.spoofAnalyzer.reset();
+  }
+
+  /**
+   * Starts collecting candidate frames for `exportBestFrame`, discarding any
+   * earlier ones. Only frontal frames with acceptable quality are considered.
+   */
+  startCapture() {
+    this.bestFrames.reset();
+    this.capturing = true;
+  }
+
+  stopCapture() {
+    this.capturing = false;
+  }
+
+  /** Aligned face crop of the best frame collected since `startCapture` */
+  exportBestFrame(): Promise<CapturedFrame | null> {
+    return this.bestFrames.export();
+  }
+
+  /** Encodes the current frame of the active source, without overlays and never mirrored */
+  captureFrame(type = 'image/jpeg', quality = 0.92): Promise<Blob | null> {
+    const image = this.source?.element;
+    if (!image) return Promise.resolve(null);
+
+    const { width, height } = getFrameSize(image);
+    if (!width || !height) return Promise.resolve(null);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+    return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+  }
+
+  attachCanvas(canvas: HTMLCanvasElement | null) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * Starts feeding frames from `source` through the detector. Any previously
+   * running source is stopped first; the detector is reused until `stop`.
+   *
+   * Live sources render every frame but never wait for detection: frames that
+   * arrive while the detector is busy are dropped, and with power saving on the
+   * scheduler skips frames while nothing is happening. Nothing is processed
+   * while the page is hidden. Step-mode sources process and wait for every
+   * frame so offline runs stay deterministic.
+   */
+  async start(source: FrameSource) {
+    this.source?.stop();
+    this.source = source;
+    this.overlay = null;
+    this.metrics = null;
+    this.monitor.start();
+    this.scheduler.reset();
+    this.watchVisibility();
+    this.setStatus('starting');
+
+    let detector: FrameDetector;
+    try {
+      const unsupported = checkDetectorSupport();
+      if (unsupported) throw unsupported;
+      detector = this.ensureDetector();
+    } catch (err) {
+      this.fail(toDetectorError(err));
+      return;
+    }
+
+    try {
+      await source.start(async timestamp => {
+        if (this.source !== source || this._status === 'paused') return;
+        const image = source.element;
+        const capturedAt = performance.now();
+        if (!source.stepMode && this.scheduler.mode === 'hidden') return;
+
+        this.monitor.frameCaptured(capturedAt);
+        this.render(image);
+
+        if (!source.stepMode && this.options.powerSaving && !this.scheduler.shouldProcess(capturedAt)) {
+          this.monitor.frameThrottled();
+          this.publishMetrics();
+          return;
+        }
+
+        const submittedAt = performance.now();
+        // While capturing, the detector hands back the frame it analysed as a best-frame candidate
+        const detection = detector.detect(image, timestamp, this.capturing).then(output => {
+          if (this.source !== source) {
+            output?.frame?.close();
+            return;
+          }
+          if (output) {
+            this.monitor.frameProcessed(performance.now() - submittedAt, output.detections.length > 0);
+            this.handleResults(output, timestamp);
+          } else {
+            this.monitor.frameDropped();
+          }
+          this.publishMetrics();
+        }).catch(err => {
+          // Failures after the source was replaced or stopped (e.g. the detector closing) are expected
+          if (this.source === source) this.fail(toDetectorError(err));
+        });
+
+        if (source.stepMode) {
+          await detection;
+          this.render(image);
+        }
+      });
+
+      // Stopped or replaced while the camera was starting, or a step-mode source's first frame failed
+      if (this.source !== source || this._status === 'error') return;
+      this.setStatus('running');
+      console.log('MediaPipe initialized successfully');
+    } catch (err) {
+      if (this.source !== source) return;
+      // Camera sources reject with a typed error already; anything else is the file failing to load
+      this.fail(
+        err instanceof LivenessError || source.kind === 'camera'
+          ? err
+          : new LivenessError('file-load-failed', `Failed to load the selected file: ${err instanceof Error ? err.message : 'Unknown error'}`, err)
+      );
+    }
+  }
+
+  /** Stops processing frames but keeps the source and detector ready to resume */
+  pause() {
+    if (this._status !== 'running' || !this.source) return;
+    this.source.pause();
+    this.setStatus('paused');
+  }
+
+  async resume() {
+    const source = this.source;
+    if (this._status !== 'paused' || !source) return;
+
+    // Motion, blink and expression state from before the pause no longer apply
+    this.smoother.reset();
+    this.stabilizer.reset();
+    this.blinkDetector.reset();
+    this.expressionAnalyzer.reset();
+    this.scheduler.reset();
+    this.setStatus('running');
+
+    try {
+      await source.resume();
+    } catch (err) {
+      if (this.source === source) this.fail(err);
+    }
+  }
+
+  /** Advances a step-mode source by one frame; resolves to false when there is nothing left or detection failed */
+  async step() {
+    const source = this.source;
+    if (!source || this._status === 'error') return false;
+
+    try {
+      return await source.step();
+    } catch (err) {
+      if (this.source === source) this.fail(err);
+      return false;
+    }
+  }
+
+  /**
+   * Stops the source, releasing camera tracks, and closes the detector. The
+   * next `start` creates a fresh detector.
+   */
+  stop() {
+    this.source?.stop();
+    this.source = null;
+    this.overlay = null;
+    this.unwatchVisibility();
+
+    this.capturing = false;
+    this.bestFrames.reset();
+
+    const detector = this.detector;
+    this.detector = null;
+    detector?.close().catch(err => console.warn('Failed to close the face detector:', err));
+
+    const canvas = this.canvas;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    this.setStatus('stopped');
+  }
+
+  private ensureDetector() {
+    if (this.detector) return this.detector;
+
+    console.log('Initializing MediaPipe...');
+
+    this.detector = createDetector(
+      this.detectorOptions(),
+      this.options.worker
+    );
+    return this.detector;
+  }
+
+  private detectorOptions(): FaceDetectionOptions {
+    const { backend, model, minDetectionConfidence } = this.options;
+    return { backend, model, minDetectionConfidence };
+  }
+
+  private createScheduler() {
+    const scheduler = new FrameScheduler(this.options.scheduler);
+    scheduler.setActive(this.active);
+    scheduler.setHidden(typeof document !== 'undefined' && document.hidden);
+    return scheduler;
+  }
+
+  private handleVisibilityChange = () => {
+    this.scheduler.setHidden(document.hidden);
+  };
+
+  private watchVisibility() {
+    this.scheduler.setHidden(document.hidden);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  private unwatchVisibility() {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  private fail(err: unknown) {
+    console.error('Error initializing MediaPipe:', err);
+    this.setStatus('error');
+    this.emit('error', err instanceof LivenessError ? err : new LivenessError('unknown', err instanceof Error ? err.message : 'Unknown error', err));
+  }
+
+  private setStatus(status: LivenessEngineStatus) {
+    if (this._status === status) return;
+    this._status = status;
+    this.emit('status', status);
+  }
+
+  private getAspectRatio() {
+    const size = this.source ? getFrameSize(this.source.element) : null;
+    if (size?.width && size.height) {
+      return size.width / size.height;
+    }
+    return this.options.width / this.options.height;
+  }
+
+  private estimatePose(landmarks: NormalizedLandmark[]) {
+    const pose = estimateHeadPose(landmarks, this.getAspectRatio());
+    return pose && normalizePose(pose, this.options.calibration);
+  }
+
+  // Keeps the canvas at the frame's aspect ratio when the camera resolution changes, within the configured size
+  private fitCanvasToFrame(image: FrameSource['element']) {
+    const canvas = this.canvas;
+    const size = getFrameSize(image);
+    if (!canvas || !size.width || !size.height) return;
+
+    const scale = Math.min(1, this.options.width / size.width, this.options.height / size.height);
+    const width = Math.round(size.width * scale);
+    const height = Math.round(size.height * scale);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  }
+
+  // Draws the frame with the overlay of the most recent detection
+  private render(image: FrameImage) {
+    const ctx = this.canvas?.getContext('2d') ?? null;
+    if (!ctx) return;
+
+    this.fitCanvasToFrame(image);
+    this.drawInImageSpace(ctx, () => drawVideoFrame(ctx, image));
+
+    if (this.options.showFramingGuide) {
+      const framing = this.overlay?.framing ?? assessFraming(null, this.getAspectRatio(), this.options.framingGuide);
+      drawFramingGuide(ctx, getFramingOval(this.options.framingGuide, this.getAspectRatio()), framing, this.options.mirrored);
+    }
+    const overlay = this.overlay;
+    if (overlay) {
+      this.drawInImageSpace(ctx, () => {
+        overlay.others.forEach(other => drawOtherFace(ctx, other));
+        if (overlay.face) {
+          drawFace(ctx, overlay.face, overlay.orientation);
+        }
+      });
+    }
+    if (this.options.debugOverlay && this.metrics) {
+      drawMetrics(ctx, this.metrics);
+    }
+  }
+
+  // Image-space drawing (the frame and anything positioned by landmarks) is flipped for a mirrored preview
+  private drawInImageSpace(ctx: CanvasRenderingContext2D, draw: () => void) {
+    if (!this.options.mirrored) {
+      draw();
+      return;
+    }
+    ctx.save();
+    ctx.translate(ctx.canvas.width, 0);
+    ctx.scale(-1, 1);
+    draw();
+    ctx.restore();
+  }
+
+  private publishMetrics() {
+    const now = performance.now();
+    if (this.metrics && now - this.lastMetricsAt < METRICS_INTERVAL_MS) return;
+
+    this.lastMetricsAt = now;
+    this.metrics = this.monitor.snapshot(this.detectorKind, this.schedulerMode, now);
+    this.emit('metrics', this.metrics);
+  }
+
+  private handleResults({ detections, gray: grayFrame, frame }: DetectorOutput, timestamp: number) {
+    const { face, faceCount, others, rejected } = this.faceSelector.select(detections, timestamp);
+    const rawPose = face ? this.estimatePose(face.landmarks) : null;
+
+    if (!face || !rawPose) {
+      frame?.close();
+      const framing = assessFraming(null, this.getAspectRatio(), this.options.framingGuide);
+      this.overlay = { face: null, others, orientation: 'none', framing };
+      // Losing the face is reported immediately; the filters restart when it comes back
+      this.smoother.reset();
+      this.stabilizer.reset();
+      this.scheduler.observe(null, performance.now());
+      this.blinkDetector.update(null, timestamp);
+      this.expressionAnalyzer.update(null);
+      this.emit('frame', {
+        timestamp,
+        orientation: 'none',
+        confidence: 0,
+        pose: null,
+        raw: { orientation: 'none', pose: null },
+        face: null,
+        faceCount,
+        multipleFaces: rejected && faceCount > 1,
+        blink: this.blinkDetector.getState(),
+        blinked: false,
+        expressions: null,
+        spoof: this.spoofAnalyzer.assess(),
+        quality: assessQuality(grayFrame, null, this.options.qualityThresholds, faceCount),
+        framing,
+      });
+      return;
+    }
+
+    // Eyelid landmarks where the backend has them, eye patch pixels otherwise
+    const openness = face.mesh
+      ? measureEyeAspectRatio(face.mesh, this.getAspectRatio())
+      : grayFrame
+        ? measureEyeOpenness(grayFrame, face.landmarks)
+        : null;
+    const blinkEvent = this.blinkDetector.update(openness, timestamp);
+    const expressions = face.mesh ? this.expressionAnalyzer.update(face.mesh, this.getAspectRatio()) : null;
+    const spoof = this.spoofAnalyzer.update(grayFrame, face.landmarks, face.boundingBox);
+    const quality = assessQuality(grayFrame, face.boundingBox, this.options.qualityThresholds);
+    const framing = assessFraming(face.boundingBox, this.getAspectRatio(), this.options.framingGuide, this.options.mirrored);
+
+    // Pixel analysis above uses the raw landmarks: blinks and micro-motion are exactly the jitter smoothing removes
+    const pose = this.estimatePose(this.smoother.update(face.landmarks, timestamp)) ?? rawPose;
+    const orientation = this.stabilizer.update(pose, timestamp);
+    this.scheduler.observe(pose, performance.now());
+    const rawOrientation = classifyOrientation(rawPose, this.options.poseThresholds);
+    const confidence = face.score?.[0] ?? 0;
+    const detection: Detection = { orientation, confidence, pose, timestamp, faceCount };
+
+    if (frame && this.capturing && orientation === 'straight' && quality.ok) {
+      this.bestFrames.offer(frame, face, scoreFrame(quality.metrics, confidence, this.options.qualityThresholds), timestamp);
+    } else {
+      frame?.close();
+    }
+
+    this.history = [...this.history.slice(-(this.options.historyLength - 1)), detection];
+    this.overlay = { face, others, orientation, framing };
+
+    this.emit('detection', detection);
+    if (blinkEvent) {
+      this.emit('blink', blinkEvent);
+    }
+    this.emit('frame', {
+      timestamp,
+      orientation,
+      confidence,
+      pose,
+      raw: { orientation: rawOrientation, pose: rawPose },
+      face,
+      faceCount,
+      multipleFaces: false,
+      blink: this.blinkDetector.getState(),
+      blinked: blinkEvent !== null,
+      expressions,
+      spoof,
+      quality,
+      framing,
+    });
+  }
+}
@@ -0,0 +1,175 @@
+export type LivenessErrorCode =
+  | 'permission-denied'
+  | 'no-camera'
+  | 'camera-in-use'
+  | 'insecure-context'
+  | 'model-load-failed'
+  | 'wasm-unsupported'
+  | 'file-load-failed'
+  | 'unknown';
+
+/** Failure starting the camera, the detector or a recorded source, with a code the UI can act on */
+export class LivenessError extends Error {
+  constructor(readonly code: LivenessErrorCode, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'LivenessError';
+  }
+
+  // Whether trying again without changing anything can succeed
+  get retryable() {
+    return this.code !== 'insecure-context' && this.code !== 'wasm-unsupported';
+  }
+}
+
+export type BrowserFamily = 'chrome' | 'edge' | 'firefox' | 'safari' | 'other';
+
+export interface ErrorGuidance {
+  title: string;
+  description: string;
+  steps: string[];
+}
+
+// How to re-enable a blocked camera, per browser
+export const PERMISSION_STEPS: Record<BrowserFamily, string[]> = {
+  chrome: [
+    'Click the camera icon or the site settings icon at the left of the address bar.',
+    'Set Camera to "Allow".',
+    'Reload the page if the camera does not start on its own.',
+  ],
+  edge: [
+    'Click the lock icon at the left of the address bar and open "Permissions for this site".',
+    'Set Camera to "Allow".',
+    'Reload the page if the camera does not start on its own.',
+  ],
+  firefox: [
+    'Click the crossed-out camera icon in the address bar.',
+    'Remove the "Blocked" camera permission for this site.',
+    'Reload the page and choose "Allow" when asked.',
+  ],
+  safari: [
+    'Open Safari › Settings for This Website (on iOS: the "aA" button › Website Settings).',
+    'Set Camera to "Allow".',
+    'Reload the page.',
+  ],
+  other: [
+    'Open the site settings from the address bar.',
+    'Allow access to the camera for this site.',
+    'Reload the page.',
+  ],
+};
+
+export const ERROR_GUIDANCE: Record<Exclude<LivenessErrorCode, 'permission-denied'>, ErrorGuidance> = {
+  'no-camera': {
+    title: 'No camera found',
+    description: 'We could not find a camera, or the selected camera is no longer connected.',
+    steps: ['Connect a camera or check that it is enabled.', 'Pick another camera in the camera selector.', 'Try again.'],
+  },
+  'camera-in-use': {
+    title: 'Camera is busy',
+    description: 'Another application or browser tab is using the camera.',
+    steps: ['Close video calls and other apps or tabs that use the camera.', 'Try again.'],
+  },
+  'insecure-context': {
+    title: 'Secure connection required',
+    description: 'Browsers only allow camera access on pages served over HTTPS or from localhost.',
+    steps: ['Open this page using an https:// address.'],
+  },
+  'model-load-failed': {
+    title: 'Face detection failed to load',
+    description: 'The face detection model could not be loaded from this site or started.',
+    steps: ['Disable content blockers and browser extensions for this site.', 'Reload the page.'],
+  },
+  'wasm-unsupported': {
+    title: 'Browser not supported',
+    description: 'Face detection needs WebAssembly, which this browser does not support or has disabled.',
+    steps: ['Use a recent version of Chrome, Edge, Firefox or Safari.'],
+  },
+  'file-load-failed': {
+    title: 'Could not load the file',
+    description: 'The selected video or images could not be read.',
+    steps: ['Select a single video file or one or more images.', 'Go back to the camera.'],
+  },
+  unknown: {
+    title: 'Something went wrong',
+    description: 'The camera or face detection could not be started.',
+    steps: ['Try again.', 'Reload the page if the problem persists.'],
+  },
+};
+
+export const getErrorGuidance = (code: LivenessErrorCode, browser: BrowserFamily = detectBrowser()): ErrorGuidance =>
+  code === 'permission-denied'
+    ? {
+        title: 'Camera access blocked',
+        description: 'Camera permission was denied for this site, so the liveness check cannot see you.',
+        steps: PERMISSION_STEPS[browser],
+      }
+    : ERROR_GUIDANCE[code];
+
+export const detectBrowser = (userAgent = navigator.userAgent): BrowserFamily => {
+  if (/Edg\//.test(userAgent)) return 'edge';
+  if (/Firefox\/|FxiOS\//.test(userAgent)) return 'firefox';
+  if (/Chrome\/|CriOS\//.test(userAgent)) return 'chrome';
+  if (/Safari\//.test(userAgent)) return 'safari';
+  return 'other';
+};
+
+/** Maps a `getUserMedia` rejection to a typed error */
+export const toCameraError = (err: unknown): LivenessError => {
+  if (err instanceof LivenessError) return err;
+
+  const name = err instanceof Error ? err.name : '';
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return new LivenessError('permission-denied', 'Camera permission was denied', err);
+    case 'SecurityError':
+      return window.isSecureContext
+        ? new LivenessError('permission-denied', 'Camera access is blocked by the browser or a policy', err)
+        : new LivenessError('insecure-context', 'Camera access requires a secure context', err);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new LivenessError('no-camera', 'No matching camera was found', err);
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new LivenessError('camera-in-use', 'The camera could not be started; it may be in use', err);
+    default:
+      return new LivenessError('unknown', message, err);
+  }
+};
+
+/** Wraps a failure of the face detector, which is almost always the model or its WASM failing to load */
+export const toDetectorError = (err: unknown): LivenessError =>
+  err instanceof LivenessError
+    ? err
+    : new LivenessError('model-load-failed', `Face detection failed: ${err instanceof Error ? err.message : 'Unknown error'}`, err);
+
+/** Reports what rules out camera-based detection before anything is requested, or null */
+export const checkCameraSupport = (): LivenessError | null => {
+  if (!window.isSecureContext || !navigator.mediaDevices?.getUserMedia) {
+    return new LivenessError('insecure-context', 'Camera access requires a secure context (HTTPS or localhost)');
+  }
+  return checkDetectorSupport();
+};
+
+export const checkDetectorSupport = (): LivenessError | null => {
+  if (typeof WebAssembly !== 'object' || typeof WebAssembly.instantiate !== 'function') {
+    return new LivenessError('wasm-unsupported', 'WebAssembly is not available');
+  }
+  return null;
+};
+
+/**
+ * Camera permission from the Permissions API, or null where the browser cannot
+ * be asked (older Firefox and Safari reject the 'camera' name). The returned
+ * status fires `change` when the user updates the permission.
+ */
+export const queryCameraPermission = async (): Promise<PermissionStatus | null> => {
+  try {
+    return (await navigator.permissions?.query({ name: 'camera' as PermissionName })) ?? null;
+  } catch {
+    return null;
+  }
+};
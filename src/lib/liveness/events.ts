@@ -0,0 +1,34 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal strongly-typed event emitter. `Events` maps event names to payload types.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    const listeners = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (err) {
+        console.error(`Error in '${String(event)}' listener:`, err);
+      }
+    });
+  }
+
+  removeAllListeners() {
+    this.listeners = {};
+  }
+}
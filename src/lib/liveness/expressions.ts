@@ -0,0 +1,154 @@
+import { MESH_LANDMARKS } from './facemesh';
+import type { NormalizedLandmark } from './mediapipe';
+
+export type Expression = 'smile' | 'open-mouth' | 'raise-eyebrows' | 'puff-cheeks';
+
+export const EXPRESSIONS: Expression[] = ['smile', 'open-mouth', 'raise-eyebrows', 'puff-cheeks'];
+
+export interface ExpressionReading {
+  // Latest measurement, null when no face mesh is available
+  value: number | null;
+  // Running estimate of the measurement with a neutral face
+  baseline: number | null;
+  active: boolean;
+}
+
+export type ExpressionState = Record<Expression, ExpressionReading>;
+
+// Increase over the user's neutral measurement that counts as performing each expression
+export type ExpressionThresholds = Record<Expression, number>;
+
+export const DEFAULT_EXPRESSION_THRESHOLDS: ExpressionThresholds = {
+  smile: 0.1,
+  'open-mouth': 0.25,
+  'raise-eyebrows': 0.05,
+  'puff-cheeks': 0.05,
+};
+
+export interface ExpressionDetectorOptions {
+  baselineAlpha?: number;
+  warmupFrames?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ExpressionDetectorOptions> = {
+  baselineAlpha: 0.02,
+  warmupFrames: 15,
+};
+
+type Measure = (point: (index: number) => NormalizedLandmark, distance: (a: number, b: number) => number) => number;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Distance between the outer eye corners, which no expression moves; every measure is relative to it
+const eyeDistance = (distance: (a: number, b: number) => number) =>
+  distance(MESH_LANDMARKS.rightEye[0], MESH_LANDMARKS.leftEye[3]);
+
+/**
+ * Scale-free measurements that grow with each expression: mouth width for a
+ * smile, lip gap over mouth width for an open mouth, eyebrow height above the
+ * upper eyelids for raised eyebrows and cheek span for puffed cheeks.
+ */
+const MEASURES: Record<Expression, Measure> = {
+  smile: (_, distance) => distance(MESH_LANDMARKS.mouthRight, MESH_LANDMARKS.mouthLeft) / eyeDistance(distance),
+  'open-mouth': (_, distance) =>
+    distance(MESH_LANDMARKS.upperLip, MESH_LANDMARKS.lowerLip) / distance(MESH_LANDMARKS.mouthRight, MESH_LANDMARKS.mouthLeft),
+  'raise-eyebrows': (point, distance) => {
+    // Upper eyelid points in eye-aspect-ratio order
+    const eyelids = [...MESH_LANDMARKS.rightEye.slice(1, 3), ...MESH_LANDMARKS.leftEye.slice(1, 3)];
+    const eyebrows = [...MESH_LANDMARKS.rightEyebrow, ...MESH_LANDMARKS.leftEyebrow];
+    const height = mean(eyelids.map(index => point(index).y)) - mean(eyebrows.map(index => point(index).y));
+    return height / eyeDistance(distance);
+  },
+  'puff-cheeks': (_, distance) => distance(MESH_LANDMARKS.rightCheek, MESH_LANDMARKS.leftCheek) / eyeDistance(distance),
+};
+
+/**
+ * Measures one expression from the Face Mesh landmarks. `aspectRatio` is the
+ * frame's width over height, since the landmarks are normalized per axis.
+ */
+export const measureExpression = (expression: Expression, mesh: NormalizedLandmark[], aspectRatio = 4 / 3): number | null => {
+  const point = (index: number) => mesh[index];
+  const distance = (a: number, b: number) => Math.hypot((mesh[a].x - mesh[b].x) * aspectRatio, mesh[a].y - mesh[b].y);
+  if (mesh.length <= Math.max(MESH_LANDMARKS.leftEye[3], MESH_LANDMARKS.leftCheek, ...MESH_LANDMARKS.leftEyebrow)) return null;
+
+  const value = MEASURES[expression](point, distance);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Decides whether a single expression is being performed. The first frames
+ * calibrate the user's neutral measurement, which then keeps adapting while
+ * the expression is not held; the expression is active once the measurement
+ * exceeds that baseline by the threshold.
+ */
+export class ExpressionDetector {
+  private options: Required<ExpressionDetectorOptions>;
+  private reading: ExpressionReading = { value: null, baseline: null, active: false };
+  private samples = 0;
+
+  constructor(readonly expression: Expression, private threshold: number, options: ExpressionDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getReading(): ExpressionReading {
+    return this.reading;
+  }
+
+  reset() {
+    this.samples = 0;
+    this.reading = { value: null, baseline: null, active: false };
+  }
+
+  update(value: number | null): ExpressionReading {
+    if (value === null) {
+      this.reading = { ...this.reading, value: null, active: false };
+      return this.reading;
+    }
+
+    const { baseline } = this.reading;
+    this.samples++;
+
+    if (baseline === null || this.samples <= this.options.warmupFrames) {
+      const nextBaseline = baseline === null ? value : baseline + (value - baseline) / this.samples;
+      this.reading = { value, baseline: nextBaseline, active: false };
+      return this.reading;
+    }
+
+    const active = value > baseline + this.threshold;
+    this.reading = {
+      value,
+      // Only track the baseline while the face is neutral
+      baseline: active ? baseline : baseline + (value - baseline) * this.options.baselineAlpha,
+      active,
+    };
+    return this.reading;
+  }
+}
+
+/** Runs one `ExpressionDetector` per expression on every Face Mesh frame */
+export class ExpressionAnalyzer {
+  private detectors: ExpressionDetector[];
+
+  constructor(thresholds: ExpressionThresholds = DEFAULT_EXPRESSION_THRESHOLDS, options: ExpressionDetectorOptions = {}) {
+    this.detectors = EXPRESSIONS.map(expression => new ExpressionDetector(expression, thresholds[expression], options));
+  }
+
+  getState(): ExpressionState {
+    return this.collect(detector => detector.getReading());
+  }
+
+  reset() {
+    this.detectors.forEach(detector => detector.reset());
+  }
+
+  /** Pass null for frames without a mesh; the neutral baselines are kept */
+  update(mesh: NormalizedLandmark[] | null, aspectRatio?: number): ExpressionState {
+    return this.collect(detector =>
+      detector.update(mesh ? measureExpression(detector.expression, mesh, aspectRatio) : null)
+    );
+  }
+
+  private collect(read: (detector: ExpressionDetector) => ExpressionReading) {
+    return Object.fromEntries(this.detectors.map(detector => [detector.expression, read(detector)])) as ExpressionState;
+  }
+}
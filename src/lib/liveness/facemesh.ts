@@ -0,0 +1,103 @@
+import { FaceMesh, type NormalizedLandmarkList, type Results } from '@mediapipe/face_mesh';
+import {
+  MEDIAPIPE_ASSET_PATH,
+  toInputImage,
+  type FaceDetectionOptions,
+  type FaceDetectionResult,
+  type FaceSolution,
+  type NormalizedLandmark,
+  type SolutionInput,
+} from './mediapipe';
+
+// Face Mesh landmark indices used by the analysis modules. "Right" and "left"
+// are the subject's, as for the face detection keypoints.
+export const MESH_LANDMARKS = {
+  // Eye contours in eye-aspect-ratio order: corner, upper lid ×2, opposite corner, lower lid ×2
+  rightEye: [33, 160, 158, 133, 153, 144],
+  leftEye: [362, 385, 387, 263, 373, 380],
+  rightEyebrow: [70, 63, 105, 66, 107],
+  leftEyebrow: [336, 296, 334, 293, 300],
+  noseTip: 1,
+  upperLip: 13,
+  lowerLip: 14,
+  mouthRight: 61,
+  mouthLeft: 291,
+  rightCheek: 50,
+  leftCheek: 280,
+  rightEarTragion: 234,
+  leftEarTragion: 454,
+  forehead: 10,
+  chin: 152,
+} as const;
+
+const DEFAULT_MAX_FACES = 4;
+
+const average = (points: NormalizedLandmark[]): NormalizedLandmark => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  z: points.reduce((sum, point) => sum + (point.z ?? 0), 0) / points.length,
+});
+
+/**
+ * Converts one face's mesh into the common detection shape: a bounding box
+ * around the mesh and the six face detection keypoints derived from it, with
+ * the mesh itself attached. Face Mesh reports no per-face score, so tracked
+ * faces count as fully confident.
+ */
+export const meshToDetection = (landmarks: NormalizedLandmarkList): FaceDetectionResult => {
+  const mesh = landmarks.map(({ x, y, z }) => ({ x, y, z }));
+  const xs = mesh.map(point => point.x);
+  const ys = mesh.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const pick = (indices: readonly number[]) => indices.map(index => mesh[index]);
+
+  return {
+    boundingBox: { xCenter: (minX + maxX) / 2, yCenter: (minY + maxY) / 2, width: maxX - minX, height: maxY - minY },
+    // KEYPOINTS order
+    landmarks: [
+      average(pick(MESH_LANDMARKS.rightEye)),
+      average(pick(MESH_LANDMARKS.leftEye)),
+      mesh[MESH_LANDMARKS.noseTip],
+      average(pick([MESH_LANDMARKS.upperLip, MESH_LANDMARKS.lowerLip])),
+      mesh[MESH_LANDMARKS.rightEarTragion],
+      mesh[MESH_LANDMARKS.leftEarTragion],
+    ],
+    score: [1],
+    mesh,
+  };
+};
+
+/** The 468-landmark `@mediapipe/face_mesh` backend */
+export class FaceMeshSolution implements FaceSolution {
+  readonly backend = 'face-mesh';
+  private faceMesh: FaceMesh;
+  private latest: Results | null = null;
+
+  constructor(options: FaceDetectionOptions) {
+    this.faceMesh = new FaceMesh({
+      locateFile: (file: string) => `${MEDIAPIPE_ASSET_PATH}/face_mesh/${file}`,
+    });
+    this.setOptions(options);
+    this.faceMesh.onResults(results => {
+      this.latest = results;
+    });
+  }
+
+  async detect(image: SolutionInput) {
+    this.latest = null;
+    await this.faceMesh.send({ image: toInputImage(image) });
+    return (this.latest?.multiFaceLandmarks ?? []).map(meshToDetection);
+  }
+
+  setOptions({ minDetectionConfidence, maxFaces }: FaceDetectionOptions) {
+    this.faceMesh.setOptions({
+      maxNumFaces: maxFaces ?? DEFAULT_MAX_FACES,
+      refineLandmarks: false,
+      ...(minDetectionConfidence !== undefined && { minDetectionConfidence, minTrackingConfidence: minDetectionConfidence }),
+    });
+  }
+
+  close() {
+    return this.faceMesh.close();
+  }
+}
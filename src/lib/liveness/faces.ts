@@ -0,0 +1,106 @@
+import type { FaceDetectionResult, NormalizedRect } from './mediapipe';
+
+/**
+ * How to pick the subject when more than one face is detected:
+ * - `reject`: no face is used while several are visible
+ * - `largest` / `most-centered`: pick one by size or distance from the frame center
+ * - `locked`: follow the first selected face across frames and ignore everyone else
+ */
+export type MultiFacePolicy = 'reject' | 'largest' | 'most-centered' | 'locked';
+
+export interface FaceSelection {
+  face: FaceDetectionResult | null;
+  faceCount: number;
+  // Faces detected in the frame other than the selected one
+  others: FaceDetectionResult[];
+  // True when the frame was discarded because of the policy
+  rejected: boolean;
+}
+
+export interface FaceSelectorOptions {
+  policy: MultiFacePolicy;
+  // Largest center distance, relative to the box size, at which a face still counts as the locked one
+  maxLockDistance: number;
+  // How long the locked face may be missing before a new one can be locked
+  lockTimeoutMs: number;
+}
+
+export const DEFAULT_FACE_SELECTOR_OPTIONS: FaceSelectorOptions = {
+  policy: 'largest',
+  maxLockDistance: 0.5,
+  lockTimeoutMs: 2000,
+};
+
+const area = (box: NormalizedRect) => box.width * box.height;
+
+const distanceToCenter = (box: NormalizedRect) => Math.hypot(box.xCenter - 0.5, box.yCenter - 0.5);
+
+const maxBy = <T>(items: T[], score: (item: T) => number) =>
+  items.reduce<T | null>((best, item) => (best === null || score(item) > score(best) ? item : best), null);
+
+/** Applies a `MultiFacePolicy` to each frame's detections, keeping the lock state for `locked` */
+export class FaceSelector {
+  private options: FaceSelectorOptions;
+  private locked: NormalizedRect | null = null;
+  private lockSeenAt: number | null = null;
+
+  constructor(options: Partial<FaceSelectorOptions> = {}) {
+    this.options = { ...DEFAULT_FACE_SELECTOR_OPTIONS, ...options };
+  }
+
+  get policy() {
+    return this.options.policy;
+  }
+
+  select(detections: FaceDetectionResult[], timestamp: number): FaceSelection {
+    const faceCount = detections.length;
+    const face = this.pick(detections, timestamp);
+    const rejected = face === null && faceCount > 0;
+
+    return { face, faceCount, others: detections.filter(detection => detection !== face), rejected };
+  }
+
+  /** Forgets the locked face so the next frame locks onto a new one */
+  reset() {
+    this.locked = null;
+    this.lockSeenAt = null;
+  }
+
+  private pick(detections: FaceDetectionResult[], timestamp: number) {
+    if (detections.length <= 1 && this.options.policy !== 'locked') return detections[0] ?? null;
+
+    switch (this.options.policy) {
+      case 'reject':
+        return null;
+      case 'most-centered':
+        return maxBy(detections, detection => -distanceToCenter(detection.boundingBox));
+      case 'locked':
+        return this.track(detections, timestamp);
+      default:
+        return maxBy(detections, detection => area(detection.boundingBox));
+    }
+  }
+
+  private track(detections: FaceDetectionResult[], timestamp: number) {
+    if (this.locked && this.lockSeenAt !== null && timestamp - this.lockSeenAt > this.options.lockTimeoutMs) {
+      this.reset();
+    }
+
+    let face: FaceDetectionResult | null;
+    if (this.locked) {
+      const locked = this.locked;
+      const size = Math.max(locked.width, locked.height);
+      const distance = (box: NormalizedRect) => Math.hypot(box.xCenter - locked.xCenter, box.yCenter - locked.yCenter) / size;
+      const nearest = maxBy(detections, detection => -distance(detection.boundingBox));
+      face = nearest && distance(nearest.boundingBox) <= this.options.maxLockDistance ? nearest : null;
+    } else {
+      face = maxBy(detections, detection => area(detection.boundingBox));
+    }
+
+    if (face) {
+      this.locked = face.boundingBox;
+      this.lockSeenAt = timestamp;
+    }
+    return face;
+  }
+}
@@ -0,0 +1,134 @@
+export type FlowStep = 'intro' | 'camera' | 'quality' | 'countdown' | 'challenges' | 'success' | 'failure';
+
+export type FlowEvent =
+  // The user accepted the intro and consented to the camera being used
+  | { type: 'consent' }
+  | { type: 'camera-ready' }
+  // The camera stopped or failed after it was ready
+  | { type: 'camera-lost' }
+  // Every processed frame; `ready` when the selected face fills the framing oval with acceptable quality
+  | { type: 'frame'; ready: boolean; timestamp: number }
+  // Clock for the countdown, on its own time base
+  | { type: 'tick'; timestamp: number }
+  | { type: 'session-ended'; passed: boolean; reasons: string[] }
+  // Another attempt from a result screen, with the camera kept
+  | { type: 'retry' }
+  // Back to the intro from any step
+  | { type: 'cancel' };
+
+export interface FlowState {
+  step: FlowStep;
+  // Start of the current run of ready frames during the quality check
+  readySince: number | null;
+  // 0..1, how long the face has been ready relative to the required hold
+  qualityProgress: number;
+  countdownEndsAt: number | null;
+  // Whole seconds left while counting down
+  countdown: number | null;
+  // Why the last attempt failed
+  reasons: string[];
+  // Challenge runs started so far, including the current one
+  attempt: number;
+}
+
+// How long the face must stay well framed before the countdown starts
+export const QUALITY_HOLD_MS = 1500;
+export const COUNTDOWN_MS = 3000;
+
+export const INITIAL_FLOW_STATE: FlowState = {
+  step: 'intro',
+  readySince: null,
+  qualityProgress: 0,
+  countdownEndsAt: null,
+  countdown: null,
+  reasons: [],
+  attempt: 0,
+};
+
+const enterCamera = (state: FlowState): FlowState => ({
+  ...INITIAL_FLOW_STATE,
+  step: 'camera',
+  attempt: state.attempt,
+});
+
+const enterQuality = (state: FlowState): FlowState => ({
+  ...state,
+  step: 'quality',
+  readySince: null,
+  qualityProgress: 0,
+  countdownEndsAt: null,
+  countdown: null,
+});
+
+/**
+ * Transition function of the guided check: intro and consent, camera start-up,
+ * a quality check that waits for a well-framed face, a countdown, the
+ * challenge session and a result screen with a retry path. Events a step does
+ * not handle leave the state unchanged, so it can be used directly as a
+ * `useReducer` reducer that is fed every frame.
+ */
+export const advanceFlow = (state: FlowState, event: FlowEvent): FlowState => {
+  if (event.type === 'cancel') return state.step === 'intro' ? state : INITIAL_FLOW_STATE;
+
+  switch (state.step) {
+    case 'intro':
+      return event.type === 'consent' ? enterCamera(state) : state;
+
+    case 'camera':
+      return event.type === 'camera-ready' ? enterQuality(state) : state;
+
+    case 'quality': {
+      if (event.type === 'camera-lost') return enterCamera(state);
+      if (event.type !== 'frame') return state;
+
+      if (!event.ready) {
+        return state.readySince === null ? state : { ...state, readySince: null, qualityProgress: 0 };
+      }
+      const readySince = state.readySince ?? event.timestamp;
+      const heldFor = event.timestamp - readySince;
+      if (heldFor >= QUALITY_HOLD_MS) {
+        return { ...state, step: 'countdown', readySince: null, qualityProgress: 1, countdownEndsAt: null, countdown: Math.ceil(COUNTDOWN_MS / 1000) };
+      }
+      return { ...state, readySince, qualityProgress: heldFor / QUALITY_HOLD_MS };
+    }
+
+    case 'countdown': {
+      if (event.type === 'camera-lost') return enterCamera(state);
+      // Losing the face restarts the quality check
+      if (event.type === 'frame') return event.ready ? state : enterQuality(state);
+      if (event.type !== 'tick') return state;
+
+      const countdownEndsAt = state.countdownEndsAt ?? event.timestamp + COUNTDOWN_MS;
+      const remaining = countdownEndsAt - event.timestamp;
+      if (remaining <= 0) {
+        return { ...state, step: 'challenges', countdownEndsAt: null, countdown: null, reasons: [], attempt: state.attempt + 1 };
+      }
+      const countdown = Math.ceil(remaining / 1000);
+      return countdownEndsAt === state.countdownEndsAt && countdown === state.countdown ? state : { ...state, countdownEndsAt, countdown };
+    }
+
+    case 'challenges':
+      if (event.type === 'camera-lost') return enterCamera(state);
+      if (event.type !== 'session-ended') return state;
+      return { ...state, step: event.passed ? 'success' : 'failure', reasons: event.reasons };
+
+    case 'success':
+    case 'failure':
+      return event.type === 'retry' ? enterCamera(state) : state;
+  }
+};
+
+/** Stages shown in the progress indicator; the countdown belongs to the quality check */
+export const FLOW_STAGES = ['Consent', 'Camera', 'Position', 'Challenges', 'Result'] as const;
+
+export const getFlowStage = (step: FlowStep) => {
+  switch (step) {
+    case 'intro': return 0;
+    case 'camera': return 1;
+    case 'quality':
+    case 'countdown': return 2;
+    case 'challenges': return 3;
+    case 'success':
+    case 'failure': return 4;
+  }
+};
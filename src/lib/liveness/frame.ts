@@ -0,0 +1,106 @@
+/**
+ * Grayscale copy of a video frame used by the pixel-based analysis modules
+ * (blink, spoof and quality). Values are luminance in the 0..1 range.
+ */
+export interface GrayFrame {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RegionStats {
+  mean: number;
+  std: number;
+  count: number;
+}
+
+/**
+ * Downscales frames onto a reusable offscreen canvas so analysis cost does not
+ * depend on the camera resolution. Works on the main thread and in workers.
+ */
+export class FrameSampler {
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+
+  constructor(private width = 320, private height = 240) {}
+
+  capture(image: CanvasImageSource): GrayFrame | null {
+    if (!this.ctx) {
+      this.ctx = this.createContext();
+    }
+    if (!this.ctx) return null;
+
+    this.ctx.drawImage(image, 0, 0, this.width, this.height);
+    return toGrayFrame(this.ctx.getImageData(0, 0, this.width, this.height));
+  }
+
+  /** RGBA pixels of the last captured frame */
+  getImageData(): ImageData | null {
+    return this.ctx?.getImageData(0, 0, this.width, this.height) ?? null;
+  }
+
+  private createContext() {
+    // Workers have no DOM, only OffscreenCanvas
+    if (typeof document === 'undefined') {
+      return new OffscreenCanvas(this.width, this.height).getContext('2d', { willReadFrequently: true });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = this.width;
+    canvas.height = this.height;
+    return canvas.getContext('2d', { willReadFrequently: true });
+  }
+}
+
+export const toGrayFrame = (imageData: ImageData): GrayFrame => {
+  const { data, width, height } = imageData;
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0; i < gray.length; i++) {
+    // Rec. 601 luma
+    gray[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+
+  return { data: gray, width, height };
+};
+
+/** Converts a region centered on a normalized point into clamped pixel coordinates */
+export const regionAround = (
+  frame: GrayFrame,
+  center: { x: number; y: number },
+  normalizedWidth: number,
+  normalizedHeight: number
+): PixelRegion => {
+  const x0 = Math.max(0, Math.round((center.x - normalizedWidth / 2) * frame.width));
+  const y0 = Math.max(0, Math.round((center.y - normalizedHeight / 2) * frame.height));
+  const x1 = Math.min(frame.width, Math.round((center.x + normalizedWidth / 2) * frame.width));
+  const y1 = Math.min(frame.height, Math.round((center.y + normalizedHeight / 2) * frame.height));
+
+  return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+};
+
+export const regionStats = (frame: GrayFrame, region: PixelRegion): RegionStats => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const value = frame.data[y * frame.width + x];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return { mean: 0, std: 0, count };
+
+  const mean = sum / count;
+  return { mean, std: Math.sqrt(Math.max(0, sumSquares / count - mean * mean)), count };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { assessFraming, DEFAULT_FRAMING_GUIDE } from './framing';
+
+const ASPECT_RATIO = 4 / 3;
+
+// A face box in image coordinates that fills the default oval well
+const box = (xCenter: number, yCenter = DEFAULT_FRAMING_GUIDE.centerY, height = 0.5) => ({
+  xCenter,
+  yCenter,
+  width: height * 0.75,
+  height,
+});
+
+describe('assessFraming', () => {
+  it('accepts a centered face that fills the oval', () => {
+    for (const mirrored of [true, false]) {
+      expect(assessFraming(box(0.5), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, mirrored)).toMatchObject({ ok: true, fit: 'inside', hint: null });
+    }
+  });
+
+  it('asks for a face when there is none', () => {
+    expect(assessFraming(null, ASPECT_RATIO)).toEqual({ fit: 'none', ok: false, hint: 'find-face', fill: null });
+  });
+
+  // The subject's right is the image's left, so a face on the image's left is off to the user's right
+  it("guides a face on the image's left towards the user's left in a mirrored preview", () => {
+    expect(assessFraming(box(0.3), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, true).hint).toBe('left');
+    expect(assessFraming(box(0.7), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, true).hint).toBe('right');
+  });
+
+  it('gives the same move hints in an unmirrored preview', () => {
+    expect(assessFraming(box(0.3), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, false).hint).toBe('left');
+    expect(assessFraming(box(0.7), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, false).hint).toBe('right');
+  });
+
+  it('guides up and down regardless of mirroring', () => {
+    for (const mirrored of [true, false]) {
+      expect(assessFraming(box(0.5, 0.2), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, mirrored).hint).toBe('down');
+      expect(assessFraming(box(0.5, 0.75), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, mirrored).hint).toBe('up');
+    }
+  });
+
+  it('asks to move closer or back once the face is centered', () => {
+    for (const mirrored of [true, false]) {
+      expect(assessFraming(box(0.5, undefined, 0.2), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, mirrored).hint).toBe('closer');
+      expect(assessFraming(box(0.5, undefined, 0.7), ASPECT_RATIO, DEFAULT_FRAMING_GUIDE, mirrored).hint).toBe('back');
+    }
+  });
+});
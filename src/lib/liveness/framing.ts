@@ -0,0 +1,100 @@
+import type { NormalizedRect } from './mediapipe';
+import { toPreviewRect, toPreviewSide } from './mirror';
+
+export type FramingFit = 'inside' | 'partial' | 'outside' | 'none';
+
+// Where to move so the face fills the oval; left and right are the user's own
+export type FramingHint = 'closer' | 'back' | 'up' | 'down' | 'left' | 'right' | 'find-face';
+
+export interface FramingGuide {
+  // Oval center, normalized to the preview
+  centerX: number;
+  centerY: number;
+  // Oval height relative to the frame height
+  height: number;
+  // Oval width over height in pixels, so it keeps its shape at any frame aspect ratio
+  aspect: number;
+  // Face box height relative to the oval height that counts as a good fit
+  minFill: number;
+  maxFill: number;
+  // Largest distance of the face center from the oval center, relative to the oval radii
+  maxOffset: number;
+}
+
+export const DEFAULT_FRAMING_GUIDE: FramingGuide = {
+  centerX: 0.5,
+  centerY: 0.47,
+  height: 0.7,
+  aspect: 0.75,
+  minFill: 0.5,
+  maxFill: 0.95,
+  maxOffset: 0.25,
+};
+
+/** Oval in normalized frame coordinates */
+export interface FramingOval {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+}
+
+export interface FramingReport {
+  fit: FramingFit;
+  // True when the face is centered in the oval and fills it well
+  ok: boolean;
+  hint: FramingHint | null;
+  // Face height relative to the oval height, null without a face
+  fill: number | null;
+}
+
+export const FRAMING_HINT_LABELS: Record<FramingHint, string> = {
+  closer: 'Move closer',
+  back: 'Move back',
+  up: 'Move up',
+  down: 'Move down',
+  left: 'Move left',
+  right: 'Move right',
+  'find-face': 'Position your face in the oval',
+};
+
+/** `aspectRatio` is the frame's width over height */
+export const getFramingOval = (guide: FramingGuide, aspectRatio: number): FramingOval => {
+  const ry = guide.height / 2;
+  return { cx: guide.centerX, cy: guide.centerY, rx: (ry * guide.aspect) / aspectRatio, ry };
+};
+
+/**
+ * Checks how well a face box, in image coordinates, sits in the framing oval
+ * of a preview that may be `mirrored`. Off-center faces are guided towards the
+ * center first, along the axis that is furthest off, and then closer or back
+ * until the face fills the oval.
+ */
+export const assessFraming = (
+  box: NormalizedRect | null,
+  aspectRatio: number,
+  guide: FramingGuide = DEFAULT_FRAMING_GUIDE,
+  mirrored = false
+): FramingReport => {
+  if (!box) return { fit: 'none', ok: false, hint: 'find-face', fill: null };
+
+  const oval = getFramingOval(guide, aspectRatio);
+  const { xCenter, yCenter } = toPreviewRect(box, mirrored);
+  const dx = (xCenter - oval.cx) / oval.rx;
+  const dy = (yCenter - oval.cy) / oval.ry;
+  const fill = box.height / (2 * oval.ry);
+
+  let hint: FramingHint | null = null;
+  if (Math.max(Math.abs(dx), Math.abs(dy)) > guide.maxOffset) {
+    // Towards the oval on screen, then turned into the user's own left or right
+    hint = Math.abs(dy) >= Math.abs(dx) ? (dy > 0 ? 'up' : 'down') : toPreviewSide(dx > 0 ? 'left' : 'right', mirrored);
+  } else if (fill < guide.minFill) {
+    hint = 'closer';
+  } else if (fill > guide.maxFill) {
+    hint = 'back';
+  }
+
+  const ok = hint === null;
+  const fit: FramingFit = ok ? 'inside' : dx * dx + dy * dy <= 1 ? 'partial' : 'outside';
+  return { fit, ok, hint, fill };
+};
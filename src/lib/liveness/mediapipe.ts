@@ -0,0 +1,111 @@
+import { FaceDetection, type InputImage } from '@mediapipe/face_detection';
+
+// Result types for the MediaPipe face detection solution. The published typings
+// omit the per-detection score, which the solution does report at runtime.
+
+export interface NormalizedLandmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface NormalizedRect {
+  xCenter: number;
+  yCenter: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceDetectionResult {
+  boundingBox: NormalizedRect;
+  // The six face detection keypoints in KEYPOINTS order, whichever backend produced them
+  landmarks: NormalizedLandmark[];
+  score?: number[];
+  // Full landmark set in MESH_LANDMARKS order; only the face-mesh backend provides it
+  mesh?: NormalizedLandmark[];
+}
+
+export interface FaceDetectionResults {
+  detections: FaceDetectionResult[];
+}
+
+export type DetectorBackend = 'face-detection' | 'face-mesh';
+
+export const DEFAULT_DETECTOR_BACKEND: DetectorBackend = 'face-detection';
+
+export interface FaceDetectionOptions {
+  backend?: DetectorBackend;
+  // Face detection model range; ignored by the face-mesh backend
+  model?: 'short' | 'full';
+  minDetectionConfidence?: number;
+  // Faces tracked by the face-mesh backend; face detection always reports every face
+  maxFaces?: number;
+}
+
+// Worker frames arrive as ImageBitmaps
+export type SolutionInput = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement | ImageBitmap;
+
+// MediaPipe uploads its input with texImage2D, which takes ImageBitmaps too; only its typings leave them out
+export const toInputImage = (image: SolutionInput) => image as InputImage;
+
+/** A MediaPipe solution that finds faces, reduced to what the detectors need */
+export interface FaceSolution {
+  readonly backend: DetectorBackend;
+  // Resolves once the graph has processed `image`
+  detect(image: SolutionInput): Promise<FaceDetectionResult[]>;
+  setOptions(options: FaceDetectionOptions): void;
+  close(): Promise<void>;
+}
+
+// Model and WASM files are copied next to the app by the `mediapipe-assets` Vite plugin, one directory per package
+export const MEDIAPIPE_ASSET_PATH = `${import.meta.env.BASE_URL}mediapipe`;
+
+// The solution attaches extra fields (e.g. the rendered image) that should not be copied or posted
+const toDetections = (results: FaceDetectionResults): FaceDetectionResult[] =>
+  (results.detections ?? []).map(({ boundingBox, landmarks, score }) => ({ boundingBox, landmarks, score }));
+
+/** The six-keypoint `@mediapipe/face_detection` backend */
+export class FaceDetectionSolution implements FaceSolution {
+  readonly backend = 'face-detection';
+  private faceDetection: FaceDetection;
+  private latest: FaceDetectionResults | null = null;
+
+  constructor(options: FaceDetectionOptions) {
+    this.faceDetection = new FaceDetection({
+      locateFile: (file: string) => `${MEDIAPIPE_ASSET_PATH}/face_detection/${file}`,
+    });
+    this.setOptions(options);
+    this.faceDetection.onResults(results => {
+      this.latest = results as FaceDetectionResults;
+    });
+  }
+
+  async detect(image: SolutionInput) {
+    // `send` resolves after `onResults` has run for this frame
+    this.latest = null;
+    await this.faceDetection.send({ image: toInputImage(image) });
+    return this.latest ? toDetections(this.latest) : [];
+  }
+
+  setOptions({ model, minDetectionConfidence }: FaceDetectionOptions) {
+    // Unset options must be left out rather than passed as undefined
+    this.faceDetection.setOptions({
+      ...(model !== undefined && { model }),
+      ...(minDetectionConfidence !== undefined && { minDetectionConfidence }),
+    });
+  }
+
+  close() {
+    return this.faceDetection.close();
+  }
+}
+
+// MediaPipe keypoint order for the face detection model
+export const KEYPOINTS = {
+  rightEye: 0,
+  leftEye: 1,
+  noseTip: 2,
+  mouthCenter: 3,
+  rightEarTragion: 4,
+  leftEarTragion: 5,
+} as const;
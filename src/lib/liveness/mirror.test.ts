@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { toPreviewOrientation, toPreviewRect, toPreviewSide } from './mirror';
+
+describe('toPreviewSide', () => {
+  it('keeps left and right in a mirrored preview', () => {
+    expect(toPreviewSide('left', true)).toBe('left');
+    expect(toPreviewSide('right', true)).toBe('right');
+  });
+
+  it('swaps left and right in an unmirrored preview', () => {
+    expect(toPreviewSide('left', false)).toBe('right');
+    expect(toPreviewSide('right', false)).toBe('left');
+  });
+
+  it('is its own inverse', () => {
+    expect(toPreviewSide(toPreviewSide('left', false), false)).toBe('left');
+  });
+
+  it('passes other directions through', () => {
+    expect(toPreviewSide('up', false)).toBe('up');
+    expect(toPreviewSide('closer', true)).toBe('closer');
+  });
+});
+
+describe('toPreviewOrientation', () => {
+  it('keeps every orientation in a mirrored preview', () => {
+    expect(toPreviewOrientation('left', true)).toBe('left');
+    expect(toPreviewOrientation('tilt-left', true)).toBe('tilt-left');
+  });
+
+  it('swaps turns and tilts in an unmirrored preview', () => {
+    expect(toPreviewOrientation('left', false)).toBe('right');
+    expect(toPreviewOrientation('right', false)).toBe('left');
+    expect(toPreviewOrientation('tilt-left', false)).toBe('tilt-right');
+    expect(toPreviewOrientation('tilt-right', false)).toBe('tilt-left');
+  });
+
+  it('leaves orientations without a side unchanged', () => {
+    expect(toPreviewOrientation('straight', false)).toBe('straight');
+    expect(toPreviewOrientation('up', false)).toBe('up');
+    expect(toPreviewOrientation('none', true)).toBe('none');
+  });
+});
+
+describe('toPreviewRect', () => {
+  const rect = { xCenter: 0.3, yCenter: 0.4, width: 0.2, height: 0.25 };
+
+  it('flips the horizontal center in a mirrored preview', () => {
+    expect(toPreviewRect(rect, true)).toEqual({ ...rect, xCenter: 0.7 });
+  });
+
+  it('returns the rect unchanged in an unmirrored preview', () => {
+    expect(toPreviewRect(rect, false)).toBe(rect);
+  });
+});
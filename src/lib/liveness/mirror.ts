@@ -0,0 +1,36 @@
+import type { NormalizedRect } from './mediapipe';
+import type { FaceOrientation } from './types';
+
+// The preview can be drawn mirrored like a selfie camera. Only drawing and
+// on-screen directions depend on it: landmarks, poses and every recorded
+// orientation stay in the subject's frame of reference, so 'left' is always
+// the user's own left.
+
+/** A normalized rect as it appears in the preview */
+export const toPreviewRect = (rect: NormalizedRect, mirrored: boolean): NormalizedRect =>
+  mirrored ? { ...rect, xCenter: 1 - rect.xCenter } : rect;
+
+/**
+ * Maps 'left' and 'right' between the user's frame of reference and the
+ * preview; the mapping is its own inverse. Other values pass through.
+ */
+export const toPreviewSide = <T extends string>(direction: T, mirrored: boolean): T => {
+  if (mirrored) return direction;
+  if (direction === 'left') return 'right' as T;
+  if (direction === 'right') return 'left' as T;
+  return direction;
+};
+
+const SWAPPED_TILTS: Partial<Record<FaceOrientation, FaceOrientation>> = {
+  'tilt-left': 'tilt-right',
+  'tilt-right': 'tilt-left',
+};
+
+/**
+ * Direction a subject-relative orientation appears to move in the preview:
+ * the user's left is the screen's left in a mirrored preview and the screen's
+ * right in an unmirrored one. Tilts map to counter-clockwise ('tilt-left')
+ * and clockwise ('tilt-right') rotation on screen.
+ */
+export const toPreviewOrientation = (orientation: FaceOrientation, mirrored: boolean): FaceOrientation =>
+  mirrored ? orientation : SWAPPED_TILTS[orientation] ?? toPreviewSide(orientation, mirrored);
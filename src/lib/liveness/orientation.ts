@@ -0,0 +1,125 @@
+import type { FaceOrientation, HeadPose } from './types';
+
+export interface PoseThresholds {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+// Degrees of rotation needed before a pose stops counting as 'straight'
+export const DEFAULT_POSE_THRESHOLDS: PoseThresholds = {
+  yaw: 20,
+  pitch: 15,
+  roll: 15,
+};
+
+/**
+ * Classifies a head pose into a discrete orientation. When several axes exceed
+ * their threshold, the axis that exceeds it by the largest factor wins.
+ */
+export const classifyOrientation = (
+  pose: HeadPose,
+  thresholds: PoseThresholds = DEFAULT_POSE_THRESHOLDS
+): FaceOrientation => {
+  const candidates: [number, FaceOrientation][] = [
+    [Math.abs(pose.yaw) / thresholds.yaw, pose.yaw > 0 ? 'left' : 'right'],
+    [Math.abs(pose.pitch) / thresholds.pitch, pose.pitch > 0 ? 'up' : 'down'],
+    [Math.abs(pose.roll) / thresholds.roll, pose.roll > 0 ? 'tilt-right' : 'tilt-left'],
+  ];
+
+  const [ratio, orientation] = candidates.reduce((best, candidate) => (candidate[0] > best[0] ? candidate : best));
+
+  return ratio > 1 ? orientation : 'straight';
+};
+
+/** How far `pose` has rotated towards `orientation`, relative to its threshold; 0 when rotated the other way */
+export const orientationRatio = (
+  pose: HeadPose,
+  orientation: FaceOrientation,
+  thresholds: PoseThresholds = DEFAULT_POSE_THRESHOLDS
+) => {
+  switch (orientation) {
+    case 'left': return Math.max(0, pose.yaw) / thresholds.yaw;
+    case 'right': return Math.max(0, -pose.yaw) / thresholds.yaw;
+    case 'up': return Math.max(0, pose.pitch) / thresholds.pitch;
+    case 'down': return Math.max(0, -pose.pitch) / thresholds.pitch;
+    case 'tilt-right': return Math.max(0, pose.roll) / thresholds.roll;
+    case 'tilt-left': return Math.max(0, -pose.roll) / thresholds.roll;
+    default: return 0;
+  }
+};
+
+export interface StabilizerOptions {
+  // Fraction of the threshold a turned pose must fall below before it is left again
+  hysteresis: number;
+  // How long a new orientation must persist before it is reported
+  minDwellMs: number;
+}
+
+export const DEFAULT_STABILIZER_OPTIONS: StabilizerOptions = {
+  hysteresis: 0.75,
+  minDwellMs: 150,
+};
+
+/**
+ * Turns per-frame classifications into stable orientation transitions. A
+ * turned state is entered at the threshold but only left once the pose drops
+ * below `hysteresis` times the threshold, and any change has to be observed
+ * for `minDwellMs` before it is reported.
+ */
+export class OrientationStabilizer {
+  private options: StabilizerOptions;
+  private current: FaceOrientation = 'none';
+  private candidate: FaceOrientation | null = null;
+  private candidateSince = 0;
+
+  constructor(private thresholds: PoseThresholds = DEFAULT_POSE_THRESHOLDS, options: Partial<StabilizerOptions> = {}) {
+    this.options = { ...DEFAULT_STABILIZER_OPTIONS, ...options };
+  }
+
+  get orientation() {
+    return this.current;
+  }
+
+  update(pose: HeadPose | null, timestamp: number): FaceOrientation {
+    const next = this.classify(pose);
+
+    if (next === this.current) {
+      this.candidate = null;
+      return this.current;
+    }
+
+    if (next !== this.candidate) {
+      this.candidate = next;
+      this.candidateSince = timestamp;
+    }
+
+    // A newly found face, or time going backwards after a rewind, is reported immediately
+    const dwelt = timestamp - this.candidateSince;
+    if (dwelt >= this.options.minDwellMs || dwelt < 0 || this.current === 'none') {
+      this.current = next;
+      this.candidate = null;
+    }
+    return this.current;
+  }
+
+  reset() {
+    this.current = 'none';
+    this.candidate = null;
+  }
+
+  private classify(pose: HeadPose | null): FaceOrientation {
+    if (!pose) return 'none';
+
+    const classified = classifyOrientation(pose, this.thresholds);
+    const isTurned = this.current !== 'none' && this.current !== 'straight';
+    if (
+      isTurned &&
+      (classified === 'straight' || classified === this.current) &&
+      orientationRatio(pose, this.current, this.thresholds) >= this.options.hysteresis
+    ) {
+      return this.current;
+    }
+    return classified;
+  }
+}
@@ -0,0 +1,162 @@
+import type { FramingHint, FramingOval, FramingReport } from './framing';
+import type { FaceDetectionResult } from './mediapipe';
+import { toPreviewSide } from './mirror';
+import type { PerformanceMetrics } from './telemetry';
+import type { FaceOrientation } from './types';
+
+export const drawVideoFrame = (ctx: CanvasRenderingContext2D, image: CanvasImageSource) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+};
+
+export const drawFace = (ctx: CanvasRenderingContext2D, face: FaceDetectionResult, orientation: FaceOrientation) => {
+  const { width, height } = ctx.canvas;
+  const bbox = face.boundingBox;
+
+  // Face detection box
+  if (bbox) {
+    ctx.strokeStyle = orientation === 'straight' ? '#10b981' : '#3b82f6';
+    ctx.lineWidth = 3;
+    ctx.strokeRect(
+      bbox.xCenter * width - (bbox.width * width) / 2,
+      bbox.yCenter * height - (bbox.height * height) / 2,
+      bbox.width * width,
+      bbox.height * height
+    );
+  }
+
+  // Face Mesh landmarks, drawn faintly under the keypoints
+  if (face.mesh) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    face.mesh.forEach(landmark => ctx.fillRect(landmark.x * width - 0.75, landmark.y * height - 0.75, 1.5, 1.5));
+  }
+
+  // Landmarks
+  ctx.fillStyle = '#ef4444';
+  face.landmarks.forEach(landmark => {
+    ctx.beginPath();
+    ctx.arc(landmark.x * width, landmark.y * height, 3, 0, 2 * Math.PI);
+    ctx.fill();
+  });
+};
+
+const FRAMING_COLORS: Record<FramingReport['fit'], string> = {
+  inside: '#10b981',
+  partial: '#f59e0b',
+  outside: '#ffffff',
+  none: '#ffffff',
+};
+
+type Vector = [number, number];
+
+// Arrows for each on-screen hint: the side of the oval they are drawn at and the direction they point in
+const HINT_ARROWS: Record<Exclude<FramingHint, 'find-face'>, { side: Vector; direction: Vector }[]> = {
+  up: [{ side: [0, -1], direction: [0, -1] }],
+  down: [{ side: [0, 1], direction: [0, 1] }],
+  left: [{ side: [-1, 0], direction: [-1, 0] }],
+  right: [{ side: [1, 0], direction: [1, 0] }],
+  // Out of the oval to grow the face, into it to shrink it
+  closer: [{ side: [-1, 0], direction: [-1, 0] }, { side: [1, 0], direction: [1, 0] }],
+  back: [{ side: [-1, 0], direction: [1, 0] }, { side: [1, 0], direction: [-1, 0] }],
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, x: number, y: number, [dx, dy]: Vector, size: number) => {
+  const angle = Math.atan2(dy, dx);
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(angle);
+  ctx.beginPath();
+  ctx.moveTo(-size / 2, 0);
+  ctx.lineTo(size / 2, 0);
+  ctx.moveTo(size / 6, -size / 3);
+  ctx.lineTo(size / 2, 0);
+  ctx.lineTo(size / 6, size / 3);
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Dims everything outside the framing oval, outlines the oval in a color for
+ * how well the face fits and draws arrows in the direction the user should
+ * move, as seen in a preview that may be `mirrored`.
+ */
+export const drawFramingGuide = (ctx: CanvasRenderingContext2D, oval: FramingOval, report: FramingReport, mirrored = false) => {
+  const { width, height } = ctx.canvas;
+  const cx = oval.cx * width;
+  const cy = oval.cy * height;
+  const rx = oval.rx * width;
+  const ry = oval.ry * height;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.ellipse(cx, cy, rx, ry, 0, 0, 2 * Math.PI);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fill('evenodd');
+
+  ctx.strokeStyle = FRAMING_COLORS[report.fit];
+  ctx.lineWidth = 4;
+  if (report.fit === 'none') ctx.setLineDash([12, 10]);
+  ctx.beginPath();
+  ctx.ellipse(cx, cy, rx, ry, 0, 0, 2 * Math.PI);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  const hint = report.hint && toPreviewSide(report.hint, mirrored);
+  if (hint && hint !== 'find-face') {
+    const size = Math.min(rx, ry) * 0.35;
+    ctx.lineWidth = 5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    HINT_ARROWS[hint].forEach(({ side, direction }) =>
+      drawArrow(ctx, cx + side[0] * (rx + size * 0.8), cy + side[1] * (ry + size * 0.8), direction, size)
+    );
+  }
+  ctx.restore();
+};
+
+/** Outlines a detected face that is not the one being analysed */
+export const drawOtherFace = (ctx: CanvasRenderingContext2D, face: FaceDetectionResult) => {
+  const { width, height } = ctx.canvas;
+  const bbox = face.boundingBox;
+  if (!bbox) return;
+
+  ctx.save();
+  ctx.strokeStyle = '#f59e0b';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 6]);
+  ctx.strokeRect(
+    bbox.xCenter * width - (bbox.width * width) / 2,
+    bbox.yCenter * height - (bbox.height * height) / 2,
+    bbox.width * width,
+    bbox.height * height
+  );
+  ctx.restore();
+};
+
+const formatMs = (value: number | null) => (value === null ? '—' : `${value.toFixed(0)} ms`);
+
+/** Debug readout of the performance metrics in the bottom-left corner */
+export const drawMetrics = (ctx: CanvasRenderingContext2D, metrics: PerformanceMetrics) => {
+  const lines = [
+    `${metrics.detector ?? 'detector'} · capture ${metrics.captureFps.toFixed(1)} fps · inference ${metrics.inferenceFps.toFixed(1)} fps`,
+    `latency p50 ${formatMs(metrics.latency.p50)} · p90 ${formatMs(metrics.latency.p90)} · p99 ${formatMs(metrics.latency.p99)}`,
+    `dropped ${metrics.droppedFrames} · throttled ${metrics.throttledFrames}/${metrics.framesCaptured} · ${metrics.schedulerMode ?? 'idle'}`,
+    `first face ${formatMs(metrics.timeToFirstFaceMs)}`,
+  ];
+  const lineHeight = 16;
+  const padding = 8;
+  const x = 12;
+  const y = ctx.canvas.height - 12 - lines.length * lineHeight - padding * 2;
+
+  ctx.save();
+  ctx.font = '12px ui-monospace, monospace';
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(x, y, width, lines.length * lineHeight + padding * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => ctx.fillText(line, x + padding, y + padding + index * lineHeight));
+  ctx.restore();
+};
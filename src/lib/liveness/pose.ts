@@ -0,0 +1,70 @@
+import { KEYPOINTS, type NormalizedLandmark } from './mediapipe';
+import type { HeadPose } from './types';
+
+// Approximate depth of the nose tip in front of the ear axis, relative to half the ear-to-ear width
+const NOSE_DEPTH_RATIO = 1.3;
+// Approximate protrusion of the nose tip relative to the eye-to-mouth distance
+const NOSE_PROTRUSION_RATIO = 0.4;
+// Relative position of the nose tip between the eye line and the mouth in a neutral, frontal pose
+const NEUTRAL_NOSE_RATIO = 0.45;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Estimates yaw, pitch and roll from the six MediaPipe face keypoints using a
+ * simple anthropometric head model. Landmarks are normalized, so `aspectRatio`
+ * (frame width / height) is needed to measure angles in pixel space. All
+ * estimates are ratios of landmark distances, which keeps them independent of
+ * face size. Returns null when any keypoint is missing.
+ */
+export const estimateHeadPose = (landmarks: NormalizedLandmark[], aspectRatio = 4 / 3): HeadPose | null => {
+  if (!landmarks || landmarks.length < 6) return null;
+  if (landmarks.some(landmark => landmark?.x === undefined || landmark?.y === undefined)) return null;
+
+  const toPoint = (landmark: NormalizedLandmark): Point => ({ x: landmark.x * aspectRatio, y: landmark.y });
+
+  // Order eyes and ears by image position so the math does not depend on keypoint labelling
+  const [imageLeftEye, imageRightEye] = [toPoint(landmarks[KEYPOINTS.rightEye]), toPoint(landmarks[KEYPOINTS.leftEye])]
+    .sort((a, b) => a.x - b.x);
+  const [imageLeftEar, imageRightEar] = [toPoint(landmarks[KEYPOINTS.rightEarTragion]), toPoint(landmarks[KEYPOINTS.leftEarTragion])]
+    .sort((a, b) => a.x - b.x);
+  const nose = toPoint(landmarks[KEYPOINTS.noseTip]);
+  const mouth = toPoint(landmarks[KEYPOINTS.mouthCenter]);
+
+  // Roll: angle of the eye line. Tilting towards the right shoulder raises the image-right eye.
+  const eyeAngle = Math.atan2(imageRightEye.y - imageLeftEye.y, imageRightEye.x - imageLeftEye.x);
+  const roll = -toDegrees(eyeAngle);
+
+  // Undo roll around the eye center so yaw and pitch are measured along the face axes
+  const origin = midpoint(imageLeftEye, imageRightEye);
+  const cos = Math.cos(-eyeAngle);
+  const sin = Math.sin(-eyeAngle);
+  const derotate = (p: Point): Point => ({
+    x: (p.x - origin.x) * cos - (p.y - origin.y) * sin,
+    y: (p.x - origin.x) * sin + (p.y - origin.y) * cos,
+  });
+
+  const leftEar = derotate(imageLeftEar);
+  const rightEar = derotate(imageRightEar);
+  const alignedNose = derotate(nose);
+  const alignedMouth = derotate(mouth);
+
+  // Yaw: nose offset from the ear midpoint relative to the ear span
+  const earCenterX = (leftEar.x + rightEar.x) / 2;
+  const halfEarSpan = Math.max((rightEar.x - leftEar.x) / 2, 1e-6);
+  const yaw = toDegrees(Math.atan((alignedNose.x - earCenterX) / halfEarSpan / NOSE_DEPTH_RATIO));
+
+  // Pitch: where the nose tip sits between the eye line (y = 0) and the mouth
+  const faceHeight = Math.max(alignedMouth.y, 1e-6);
+  const noseRatio = alignedNose.y / faceHeight;
+  const pitch = toDegrees(Math.atan((NEUTRAL_NOSE_RATIO - noseRatio) / NOSE_PROTRUSION_RATIO));
+
+  return { yaw, pitch, roll };
+};
@@ -0,0 +1,166 @@
+import { regionAround, regionStats, type GrayFrame, type PixelRegion } from './frame';
+import type { NormalizedRect } from './mediapipe';
+
+export type QualityIssue =
+  | 'no-face'
+  | 'multiple-faces'
+  | 'too-dark'
+  | 'too-bright'
+  | 'low-contrast'
+  | 'backlit'
+  | 'blurry'
+  | 'too-far'
+  | 'too-close'
+  | 'off-center';
+
+export interface QualityMetrics {
+  // Mean face luminance (whole frame when no face is found), 0..1
+  brightness: number | null;
+  // Standard deviation of face luminance
+  contrast: number | null;
+  // Laplacian variance inside the face; low values mean blur
+  sharpness: number | null;
+  // Background brightness minus face brightness; high values mean a light source behind the user
+  backlight: number | null;
+  // Face box width relative to frame width
+  faceSize: number | null;
+  // Distance of the face center from the frame center, relative to frame size
+  centerOffset: { x: number; y: number } | null;
+}
+
+export interface QualityReport {
+  ok: boolean;
+  issues: QualityIssue[];
+  // User-facing hint for the most important issue
+  guidance: string | null;
+  metrics: QualityMetrics;
+}
+
+export interface QualityThresholds {
+  minBrightness: number;
+  maxBrightness: number;
+  minContrast: number;
+  minSharpness: number;
+  maxBacklight: number;
+  minFaceSize: number;
+  maxFaceSize: number;
+  maxCenterOffset: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minBrightness: 0.25,
+  maxBrightness: 0.85,
+  minContrast: 0.05,
+  minSharpness: 0.0008,
+  maxBacklight: 0.3,
+  minFaceSize: 0.2,
+  maxFaceSize: 0.7,
+  maxCenterOffset: 0.2,
+};
+
+// Ordered by priority: the first issue found is the one the user is told about
+export const QUALITY_GUIDANCE: Record<QualityIssue, string> = {
+  'too-dark': 'Too dark — find better lighting',
+  'too-bright': 'Too bright — avoid direct light',
+  'no-face': 'Position your face in the frame',
+  'multiple-faces': 'Only one person should be in view',
+  backlit: 'Light behind you — face a light source',
+  'too-far': 'Move closer',
+  'too-close': 'Move back',
+  'off-center': 'Center your face',
+  'low-contrast': 'Improve lighting contrast',
+  blurry: 'Hold still — image is blurry',
+};
+
+const ISSUE_PRIORITY = Object.keys(QUALITY_GUIDANCE) as QualityIssue[];
+
+const EMPTY_METRICS: QualityMetrics = {
+  brightness: null,
+  contrast: null,
+  sharpness: null,
+  backlight: null,
+  faceSize: null,
+  centerOffset: null,
+};
+
+/** Variance of the 4-neighbour Laplacian; drops sharply on defocused or motion-blurred frames */
+export const laplacianVariance = (frame: GrayFrame, region: PixelRegion) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = Math.max(1, region.y); y < Math.min(frame.height - 1, region.y + region.height); y++) {
+    for (let x = Math.max(1, region.x); x < Math.min(frame.width - 1, region.x + region.width); x++) {
+      const i = y * frame.width + x;
+      const value = 4 * frame.data[i] - frame.data[i - 1] - frame.data[i + 1] - frame.data[i - frame.width] - frame.data[i + frame.width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/** Mean luminance of the frame outside the face box */
+const backgroundBrightness = (frame: GrayFrame, face: PixelRegion) => {
+  const total = regionStats(frame, { x: 0, y: 0, width: frame.width, height: frame.height });
+  const inner = regionStats(frame, face);
+  const outsideCount = total.count - inner.count;
+  if (outsideCount <= 0) return total.mean;
+  return (total.mean * total.count - inner.mean * inner.count) / outsideCount;
+};
+
+/**
+ * Measures whether a frame is good enough to run challenges on and returns the
+ * issues found, most important first.
+ */
+export const assessQuality = (
+  frame: GrayFrame | null,
+  box: NormalizedRect | null,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+  // Faces detected in the frame; several without a selected `box` means the frame was rejected
+  faceCount = box ? 1 : 0
+): QualityReport => {
+  if (!frame || !box) {
+    // Without a face, still explain the most likely cause when the whole frame is badly exposed
+    const brightness = frame ? regionStats(frame, { x: 0, y: 0, width: frame.width, height: frame.height }).mean : null;
+    const issues: QualityIssue[] = [faceCount > 1 ? 'multiple-faces' : 'no-face'];
+    if (brightness !== null && brightness < thresholds.minBrightness) issues.unshift('too-dark');
+    if (brightness !== null && brightness > thresholds.maxBrightness) issues.unshift('too-bright');
+    return { ok: false, issues, guidance: QUALITY_GUIDANCE[issues[0]], metrics: { ...EMPTY_METRICS, brightness } };
+  }
+
+  const region = regionAround(frame, { x: box.xCenter, y: box.yCenter }, box.width, box.height);
+  const face = regionStats(frame, region);
+  const sharpness = laplacianVariance(frame, region);
+  const backlight = backgroundBrightness(frame, region) - face.mean;
+  const metrics: QualityMetrics = {
+    brightness: face.mean,
+    contrast: face.std,
+    sharpness,
+    backlight,
+    faceSize: box.width,
+    centerOffset: { x: box.xCenter - 0.5, y: box.yCenter - 0.5 },
+  };
+
+  const found = new Set<QualityIssue>();
+  if (face.mean < thresholds.minBrightness) found.add('too-dark');
+  if (face.mean > thresholds.maxBrightness) found.add('too-bright');
+  if (face.std < thresholds.minContrast) found.add('low-contrast');
+  if (backlight > thresholds.maxBacklight) found.add('backlit');
+  if (sharpness < thresholds.minSharpness) found.add('blurry');
+  if (box.width < thresholds.minFaceSize) found.add('too-far');
+  if (box.width > thresholds.maxFaceSize) found.add('too-close');
+  if (Math.hypot(box.xCenter - 0.5, box.yCenter - 0.5) > thresholds.maxCenterOffset) found.add('off-center');
+
+  const issues = ISSUE_PRIORITY.filter(issue => found.has(issue));
+  return {
+    ok: issues.length === 0,
+    issues,
+    guidance: issues.length > 0 ? QUALITY_GUIDANCE[issues[0]] : null,
+    metrics,
+  };
+};
@@ -0,0 +1,98 @@
+import type { FrameScore } from './capture';
+import type { Challenge, ChallengeSessionState } from './challenges';
+import type { SpoofAssessment, SpoofSignalName, SpoofVerdict } from './spoof';
+
+export const RESULT_VERSION = 1;
+
+export interface BestFrameAttachment {
+  // Data URL of the aligned face crop
+  face: string;
+  fullFrame: string | null;
+  score: FrameScore;
+  capturedAt: number;
+}
+
+export interface LivenessStepSummary {
+  challenge: Challenge;
+  passed: boolean;
+  startedAt: number;
+  completedAt: number;
+  durationMs: number;
+  confidence: number;
+  reason?: string;
+}
+
+/**
+ * Structured outcome of a challenge session, submitted to the verification
+ * endpoint in exchange for a signed token.
+ */
+export interface LivenessSessionResult {
+  version: number;
+  // Issued by the verifier; null when the challenges were generated locally
+  sessionId: string | null;
+  seed: number;
+  challenges: Challenge[];
+  passed: boolean;
+  reasons: string[];
+  startedAt: number;
+  completedAt: number;
+  steps: LivenessStepSummary[];
+  blinkCount: number;
+  spoof: {
+    score: number | null;
+    verdict: SpoofVerdict;
+    signals: { name: SpoofSignalName; value: number | null; score: number | null }[];
+  };
+  // SHA-256 (hex) of the face crop in `bestFrame`
+  bestFrameHash: string | null;
+  bestFrame: BestFrameAttachment | null;
+}
+
+export const buildSessionResult = (
+  session: ChallengeSessionState,
+  spoof: SpoofAssessment | null,
+  options: { sessionId?: string | null; bestFrameHash?: string | null; bestFrame?: BestFrameAttachment | null } = {}
+): LivenessSessionResult => {
+  const steps = session.results.map(result => ({
+    challenge: result.challenge,
+    passed: result.passed,
+    startedAt: result.startedAt,
+    completedAt: result.completedAt,
+    durationMs: result.completedAt - result.startedAt,
+    confidence: result.confidence,
+    ...(result.reason ? { reason: result.reason } : {}),
+  }));
+
+  return {
+    version: RESULT_VERSION,
+    sessionId: options.sessionId ?? null,
+    seed: session.seed,
+    challenges: session.challenges,
+    passed: session.verdict?.passed ?? false,
+    reasons: session.verdict?.reasons ?? [],
+    startedAt: steps[0]?.startedAt ?? session.verdict?.completedAt ?? 0,
+    completedAt: session.verdict?.completedAt ?? 0,
+    steps,
+    blinkCount: session.blinkCount,
+    spoof: {
+      score: spoof?.score ?? session.spoofScore,
+      verdict: spoof?.verdict ?? 'uncertain',
+      signals: (spoof?.signals ?? []).map(({ name, value, score }) => ({ name, value, score })),
+    },
+    bestFrameHash: options.bestFrameHash ?? null,
+    bestFrame: options.bestFrame ?? null,
+  };
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read the image'));
+    reader.readAsDataURL(blob);
+  });
+
+export const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,129 @@
+import type { HeadPose } from './types';
+
+/**
+ * How often frames are sent to the detector:
+ * - `active`: a challenge or calibration step is in progress
+ * - `tracking`: a face is visible and moving
+ * - `stable`: the face has barely moved for a while
+ * - `absent`: no face in view
+ * - `hidden`: the page is in the background; nothing is processed
+ */
+export type SchedulerMode = 'active' | 'tracking' | 'stable' | 'absent' | 'hidden';
+
+export interface SchedulerOptions {
+  // Target detection rate per mode, in frames per second
+  activeFps: number;
+  trackingFps: number;
+  stableFps: number;
+  absentFps: number;
+  // Largest change in yaw, pitch or roll (degrees) between detections that still counts as holding still
+  maxStableMotion: number;
+  // How long the face has to hold still before switching to the stable rate
+  stableAfterMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  activeFps: 30,
+  trackingFps: 15,
+  stableFps: 5,
+  absentFps: 4,
+  maxStableMotion: 2,
+  stableAfterMs: 1000,
+};
+
+// Frames arrive with some jitter; accept them slightly early rather than skipping one too many
+const INTERVAL_TOLERANCE = 0.8;
+
+/**
+ * Decides which captured frames go to the detector. Inference is throttled
+ * while the face is absent or holding still, paused while the page is hidden,
+ * and runs at full rate whenever the caller marks the run as active.
+ */
+export class FrameScheduler {
+  private options: SchedulerOptions;
+  private active = false;
+  private hidden = false;
+  private faceVisible = false;
+  private lastPose: HeadPose | null = null;
+  private stableSince: number | null = null;
+  private lastProcessedAt: number | null = null;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  get mode(): SchedulerMode {
+    if (this.hidden) return 'hidden';
+    if (this.active) return 'active';
+    if (!this.faceVisible) return 'absent';
+    return this.isStable() ? 'stable' : 'tracking';
+  }
+
+  setActive(active: boolean) {
+    this.active = active;
+  }
+
+  setHidden(hidden: boolean) {
+    this.hidden = hidden;
+    // Process the first frame after returning straight away
+    if (!hidden) this.lastProcessedAt = null;
+  }
+
+  /** Returns true when the frame captured at `now` should be sent to the detector */
+  shouldProcess(now: number) {
+    const mode = this.mode;
+    if (mode === 'hidden') return false;
+
+    const interval = 1000 / this.fpsFor(mode);
+    if (this.lastProcessedAt !== null && now >= this.lastProcessedAt && now - this.lastProcessedAt < interval * INTERVAL_TOLERANCE) {
+      return false;
+    }
+
+    this.lastProcessedAt = now;
+    return true;
+  }
+
+  /** Feeds back the pose of a processed frame, or null when no face was found */
+  observe(pose: HeadPose | null, now: number) {
+    this.faceVisible = pose !== null;
+
+    if (!pose) {
+      this.lastPose = null;
+      this.stableSince = null;
+      return;
+    }
+
+    const last = this.lastPose;
+    const motion = last
+      ? Math.max(Math.abs(pose.yaw - last.yaw), Math.abs(pose.pitch - last.pitch), Math.abs(pose.roll - last.roll))
+      : Infinity;
+    if (motion > this.options.maxStableMotion) {
+      this.stableSince = now;
+    }
+    this.lastPose = pose;
+  }
+
+  reset() {
+    this.faceVisible = false;
+    this.lastPose = null;
+    this.stableSince = null;
+    this.lastProcessedAt = null;
+  }
+
+  private isStable() {
+    return this.stableSince !== null && this.lastProcessedAt !== null && this.lastProcessedAt - this.stableSince >= this.options.stableAfterMs;
+  }
+
+  private fpsFor(mode: Exclude<SchedulerMode, 'hidden'>) {
+    switch (mode) {
+      case 'active':
+        return this.options.activeFps;
+      case 'tracking':
+        return this.options.trackingFps;
+      case 'stable':
+        return this.options.stableFps;
+      case 'absent':
+        return this.options.absentFps;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import type { LivenessEngineOptions } from './engine';
+import { DEFAULT_POSE_THRESHOLDS } from './orientation';
+import { readStoredJson, writeStoredJson } from './storage';
+
+export const detectorSettingsSchema = z.object({
+  backend: z.enum(['face-detection', 'face-mesh']),
+  model: z.enum(['short', 'full']),
+  multiFacePolicy: z.enum(['reject', 'largest', 'most-centered', 'locked']),
+  minDetectionConfidence: z.coerce.number().min(0.1).max(0.95),
+  yawThreshold: z.coerce.number().min(5).max(60),
+  pitchThreshold: z.coerce.number().min(5).max(60),
+  rollThreshold: z.coerce.number().min(5).max(60),
+  historyLength: z.coerce.number().int().min(1).max(100),
+  canvasWidth: z.coerce.number().int().min(160).max(1920),
+  canvasHeight: z.coerce.number().int().min(120).max(1080),
+  // Query parameters arrive as strings
+  mirrorPreview: z.preprocess(value => (value === 'true' ? true : value === 'false' ? false : value), z.boolean()),
+});
+
+export type DetectorSettings = z.infer<typeof detectorSettingsSchema>;
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  backend: 'face-detection',
+  model: 'short',
+  multiFacePolicy: 'reject',
+  minDetectionConfidence: 0.5,
+  yawThreshold: DEFAULT_POSE_THRESHOLDS.yaw,
+  pitchThreshold: DEFAULT_POSE_THRESHOLDS.pitch,
+  rollThreshold: DEFAULT_POSE_THRESHOLDS.roll,
+  historyLength: 10,
+  canvasWidth: 640,
+  canvasHeight: 480,
+  mirrorPreview: true,
+};
+
+// Query parameters that override a setting, e.g. `?model=full&minConfidence=0.7` in QA links
+export const SETTINGS_QUERY_PARAMS: Record<keyof DetectorSettings, string> = {
+  backend: 'backend',
+  model: 'model',
+  multiFacePolicy: 'multiFace',
+  minDetectionConfidence: 'minConfidence',
+  yawThreshold: 'yaw',
+  pitchThreshold: 'pitch',
+  rollThreshold: 'roll',
+  historyLength: 'history',
+  canvasWidth: 'width',
+  canvasHeight: 'height',
+  mirrorPreview: 'mirror',
+};
+
+const STORAGE_KEY = 'face-sense-check:settings';
+
+// Keeps the valid fields of an untrusted object and drops the rest
+const pickValid = (input: Record<string, unknown>): Partial<DetectorSettings> => {
+  const valid: Record<string, unknown> = {};
+  (Object.keys(detectorSettingsSchema.shape) as (keyof DetectorSettings)[]).forEach(key => {
+    if (input[key] === undefined) return;
+    const parsed = detectorSettingsSchema.shape[key].safeParse(input[key]);
+    if (parsed.success) valid[key] = parsed.data;
+  });
+  return valid as Partial<DetectorSettings>;
+};
+
+export const readSettingsOverrides = (search: string): Partial<DetectorSettings> => {
+  const params = new URLSearchParams(search);
+  const input: Record<string, unknown> = {};
+  (Object.entries(SETTINGS_QUERY_PARAMS) as [keyof DetectorSettings, string][]).forEach(([key, param]) => {
+    const value = params.get(param);
+    if (value !== null) input[key] = value;
+  });
+  return pickValid(input);
+};
+
+/** Stored settings with any URL query overrides applied on top */
+export const loadDetectorSettings = (search = window.location.search): DetectorSettings => {
+  const raw = readStoredJson(STORAGE_KEY);
+  const stored = raw && typeof raw === 'object' ? pickValid(raw as Record<string, unknown>) : {};
+  return { ...DEFAULT_DETECTOR_SETTINGS, ...stored, ...readSettingsOverrides(search) };
+};
+
+export const saveDetectorSettings = (settings: DetectorSettings) => writeStoredJson(STORAGE_KEY, settings);
+
+export const toEngineOptions = (settings: DetectorSettings): LivenessEngineOptions => ({
+  backend: settings.backend,
+  model: settings.model,
+  multiFacePolicy: settings.multiFacePolicy,
+  minDetectionConfidence: settings.minDetectionConfidence,
+  poseThresholds: { yaw: settings.yawThreshold, pitch: settings.pitchThreshold, roll: settings.rollThreshold },
+  historyLength: settings.historyLength,
+  width: settings.canvasWidth,
+  height: settings.canvasHeight,
+  mirrored: settings.mirrorPreview,
+});
@@ -0,0 +1,83 @@
+import type { NormalizedLandmark } from './mediapipe';
+
+export interface OneEuroOptions {
+  // Cutoff frequency (Hz) when the signal is still; lower removes more jitter
+  minCutoff: number;
+  // How quickly the cutoff rises with speed; higher reduces lag on fast movements
+  beta: number;
+  // Cutoff frequency (Hz) for the derivative estimate
+  dCutoff: number;
+}
+
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroOptions = {
+  minCutoff: 1.5,
+  beta: 0.5,
+  dCutoff: 1,
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter (Casiez et al., 2012): an exponential smoother whose cutoff
+ * adapts to the signal's speed, so slow jitter is removed without adding lag
+ * to deliberate movements. Timestamps are in milliseconds.
+ */
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(private options: OneEuroOptions = DEFAULT_ONE_EURO_OPTIONS) {}
+
+  filter(value: number, timestamp: number) {
+    const dt = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+
+    // First sample, or time went backwards (e.g. a replayed video was rewound)
+    if (this.value === null || dt <= 0) {
+      this.value = value;
+      this.derivative = 0;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+
+    const derivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(this.options.dCutoff, dt) * (derivative - this.derivative);
+
+    const cutoff = this.options.minCutoff + this.options.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    this.lastTimestamp = timestamp;
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTimestamp = null;
+  }
+}
+
+/** Applies a One Euro filter to every coordinate of a landmark set */
+export class LandmarkSmoother {
+  private filters: { x: OneEuroFilter; y: OneEuroFilter }[] = [];
+
+  constructor(private options: OneEuroOptions = DEFAULT_ONE_EURO_OPTIONS) {}
+
+  update(landmarks: NormalizedLandmark[], timestamp: number): NormalizedLandmark[] {
+    if (this.filters.length !== landmarks.length) {
+      this.filters = landmarks.map(() => ({ x: new OneEuroFilter(this.options), y: new OneEuroFilter(this.options) }));
+    }
+
+    return landmarks.map((landmark, index) => ({
+      ...landmark,
+      x: this.filters[index].x.filter(landmark.x, timestamp),
+      y: this.filters[index].y.filter(landmark.y, timestamp),
+    }));
+  }
+
+  reset() {
+    this.filters = [];
+  }
+}
@@ -0,0 +1,69 @@
+import { FaceMeshSolution } from './facemesh';
+import {
+  DEFAULT_DETECTOR_BACKEND,
+  FaceDetectionSolution,
+  type FaceDetectionOptions,
+  type FaceDetectionResult,
+  type FaceSolution,
+  type SolutionInput,
+} from './mediapipe';
+
+export const createFaceSolution = (options: FaceDetectionOptions): FaceSolution =>
+  (options.backend ?? DEFAULT_DETECTOR_BACKEND) === 'face-mesh' ? new FaceMeshSolution(options) : new FaceDetectionSolution(options);
+
+/**
+ * Owns the active backend for a detector and swaps it when `configure`
+ * selects a different one. The solution is created on the first frame, and a
+ * backend replaced while a frame is in flight is closed once that frame is done.
+ */
+export class FaceSolutionHost {
+  private solution: FaceSolution | null = null;
+  private retired: FaceSolution[] = [];
+  private inFlight = 0;
+
+  constructor(private options: FaceDetectionOptions = {}) {}
+
+  get backend() {
+    return this.options.backend ?? DEFAULT_DETECTOR_BACKEND;
+  }
+
+  configure(options: FaceDetectionOptions) {
+    this.options = { ...this.options, ...options };
+    if (!this.solution) return;
+
+    if (this.solution.backend !== this.backend) {
+      this.retired.push(this.solution);
+      this.solution = null;
+      this.closeRetired();
+    } else {
+      this.solution.setOptions(this.options);
+    }
+  }
+
+  async detect(image: SolutionInput): Promise<FaceDetectionResult[]> {
+    this.solution ??= createFaceSolution(this.options);
+    const solution = this.solution;
+
+    this.inFlight++;
+    try {
+      return await solution.detect(image);
+    } finally {
+      this.inFlight--;
+      this.closeRetired();
+    }
+  }
+
+  async close() {
+    if (this.solution) this.retired.push(this.solution);
+    this.solution = null;
+    await this.closeRetired();
+  }
+
+  private async closeRetired() {
+    if (this.inFlight > 0 || this.retired.length === 0) return;
+
+    const retired = this.retired;
+    this.retired = [];
+    await Promise.all(retired.map(solution => solution.close().catch(err => console.warn('Failed to close a face detector:', err))));
+  }
+}
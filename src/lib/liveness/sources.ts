@@ -0,0 +1,436 @@
+import { buildVideoConstraints, DEFAULT_CAMERA_PREFERENCES, type CameraPreferences } from './devices';
+import { checkCameraSupport, LivenessError, queryCameraPermission, toCameraError } from './errors';
+
+export type FrameSourceKind = 'camera' | 'video' | 'images' | 'stream';
+
+export type FrameImage = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+// Called once per frame with the frame's timestamp in milliseconds
+export type FrameHandler = (timestamp: number) => Promise<void>;
+
+/**
+ * Anything that can feed frames into the engine. Sources with `stepMode`
+ * only advance when `step` is called and report media time instead of wall
+ * clock time, so offline runs are deterministic.
+ */
+export interface FrameSource {
+  readonly kind: FrameSourceKind;
+  // Element that is drawn to the canvas and sent to MediaPipe
+  readonly element: FrameImage;
+  readonly stepMode: boolean;
+  start(onFrame: FrameHandler): Promise<void>;
+  // Releases everything the source holds, including camera tracks; a stopped source can be started again
+  stop(): void;
+  // Stops delivering frames without releasing the input
+  pause(): void;
+  resume(): Promise<void>;
+  // Advances one frame in step mode; resolves to false once the source is exhausted
+  step(): Promise<boolean>;
+}
+
+export interface PlaybackOptions {
+  stepMode?: boolean;
+  // Frame rate used for stepping and for image sequences
+  fps?: number;
+  loop?: boolean;
+}
+
+const DEFAULT_FPS = 30;
+
+export const getFrameSize = (element: FrameImage) => {
+  if (element instanceof HTMLVideoElement) {
+    return { width: element.videoWidth, height: element.videoHeight };
+  }
+  if (element instanceof HTMLImageElement) {
+    return { width: element.naturalWidth, height: element.naturalHeight };
+  }
+  return { width: element.width, height: element.height };
+};
+
+type VideoWithFrameCallback = HTMLVideoElement & {
+  requestVideoFrameCallback?: (callback: (now: number, metadata: { mediaTime: number }) => void) => number;
+  cancelVideoFrameCallback?: (handle: number) => void;
+};
+
+const waitForEvent = (target: EventTarget, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(`Failed while waiting for '${event}'`));
+    };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+/**
+ * Runs `onFrame` for every decoded frame of a playing video element, using
+ * `requestVideoFrameCallback` where available and animation frames otherwise.
+ */
+class VideoFrameLoop {
+  private handle: number | null = null;
+  private running = false;
+
+  constructor(private video: VideoWithFrameCallback, private onFrame: FrameHandler, private useMediaTime: boolean) {}
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.schedule();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.handle === null) return;
+    if (this.video.cancelVideoFrameCallback) {
+      this.video.cancelVideoFrameCallback(this.handle);
+    } else {
+      cancelAnimationFrame(this.handle);
+    }
+    this.handle = null;
+  }
+
+  private schedule() {
+    if (!this.running) return;
+
+    if (this.video.requestVideoFrameCallback) {
+      this.handle = this.video.requestVideoFrameCallback((_now, metadata) => {
+        this.tick(this.useMediaTime ? metadata.mediaTime * 1000 : Date.now());
+      });
+    } else {
+      this.handle = requestAnimationFrame(() => {
+        this.tick(this.useMediaTime ? this.video.currentTime * 1000 : Date.now());
+      });
+    }
+  }
+
+  private async tick(timestamp: number) {
+    if (!this.running) return;
+    if (this.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      await this.onFrame(timestamp);
+    }
+    this.schedule();
+  }
+}
+
+/** Live webcam selected by device, facing mode and resolution preferences */
+export class CameraSource implements FrameSource {
+  readonly kind = 'camera';
+  readonly stepMode = false;
+  private stream: MediaStream | null = null;
+  private loop: VideoFrameLoop | null = null;
+  private stopped = false;
+
+  constructor(readonly element: HTMLVideoElement, private preferences: CameraPreferences = DEFAULT_CAMERA_PREFERENCES) {}
+
+  /** Rejects with a `LivenessError` describing why the camera could not be opened */
+  async start(onFrame: FrameHandler) {
+    this.stopped = false;
+
+    const unsupported = checkCameraSupport();
+    if (unsupported) throw unsupported;
+
+    // A permission that is already denied would make getUserMedia fail without a prompt
+    const permission = await queryCameraPermission();
+    if (permission?.state === 'denied') {
+      throw new LivenessError('permission-denied', 'Camera permission was denied');
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: buildVideoConstraints(this.preferences),
+        audio: false,
+      });
+    } catch (err) {
+      throw toCameraError(err);
+    }
+
+    // Stopped while the permission prompt was open: release the camera instead of attaching it
+    if (this.stopped) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    this.element.removeAttribute('src');
+    this.element.srcObject = this.stream;
+    this.element.muted = true;
+    this.loop = new VideoFrameLoop(this.element, onFrame, false);
+    this.loop.start();
+    await this.element.play();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.loop?.stop();
+    this.loop = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.element.pause();
+    this.element.srcObject = null;
+  }
+
+  pause() {
+    this.loop?.stop();
+    this.element.pause();
+  }
+
+  async resume() {
+    if (!this.stream) return;
+    this.loop?.start();
+    await this.element.play();
+  }
+
+  /** Device actually in use, which may differ from the requested one */
+  get deviceId() {
+    return this.stream?.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  async step() {
+    return false;
+  }
+}
+
+/** Local video file or URL, played back or stepped frame by frame */
+export class VideoFileSource implements FrameSource {
+  readonly kind = 'video';
+  readonly stepMode: boolean;
+  private objectUrl: string | null = null;
+  private loop: VideoFrameLoop | null = null;
+  private onFrame: FrameHandler | null = null;
+  private frameIndex = 0;
+  private fps: number;
+
+  constructor(readonly element: HTMLVideoElement, private input: File | Blob | string, private options: PlaybackOptions = {}) {
+    this.stepMode = options.stepMode ?? false;
+    this.fps = options.fps ?? DEFAULT_FPS;
+  }
+
+  async start(onFrame: FrameHandler) {
+    const video = this.element;
+    this.onFrame = onFrame;
+    this.frameIndex = 0;
+
+    video.srcObject = null;
+    this.objectUrl = typeof this.input === 'string' ? null : URL.createObjectURL(this.input);
+    video.src = this.objectUrl ?? (this.input as string);
+    video.loop = this.options.loop ?? false;
+    video.muted = true;
+
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.load();
+    await loaded;
+
+    if (this.stepMode) {
+      video.pause();
+      // Deliver the first frame so the canvas is not empty
+      await this.deliver(0);
+      return;
+    }
+
+    this.loop = new VideoFrameLoop(video, onFrame, true);
+    this.loop.start();
+    await video.play();
+  }
+
+  stop() {
+    this.loop?.stop();
+    this.loop = null;
+    this.onFrame = null;
+    this.element.pause();
+    this.element.removeAttribute('src');
+    this.element.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+
+  // Step mode only advances on `step`, so there is nothing to pause
+  pause() {
+    if (this.stepMode) return;
+    this.loop?.stop();
+    this.element.pause();
+  }
+
+  async resume() {
+    if (this.stepMode || !this.loop) return;
+    this.loop.start();
+    await this.element.play();
+  }
+
+  async step() {
+    if (!this.stepMode || !this.onFrame) return false;
+
+    const nextTime = (this.frameIndex + 1) / this.fps;
+    if (nextTime > this.element.duration) return false;
+
+    this.frameIndex++;
+    const seeked = waitForEvent(this.element, 'seeked');
+    this.element.currentTime = nextTime;
+    await seeked;
+    await this.deliver(this.frameIndex);
+    return true;
+  }
+
+  private async deliver(frameIndex: number) {
+    await this.onFrame?.((frameIndex * 1000) / this.fps);
+  }
+}
+
+/** Ordered set of still images, e.g. frames exported from a recorded session */
+export class ImageSequenceSource implements FrameSource {
+  readonly kind = 'images';
+  readonly stepMode: boolean;
+  readonly element: HTMLCanvasElement;
+  private images: ImageBitmap[] = [];
+  private onFrame: FrameHandler | null = null;
+  private frameIndex = -1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private paused = false;
+  private fps: number;
+
+  constructor(private inputs: Blob[], private options: PlaybackOptions = {}) {
+    this.stepMode = options.stepMode ?? false;
+    this.fps = options.fps ?? DEFAULT_FPS;
+    this.element = document.createElement('canvas');
+  }
+
+  async start(onFrame: FrameHandler) {
+    this.onFrame = onFrame;
+    this.frameIndex = -1;
+    this.paused = false;
+    this.images = await Promise.all(this.inputs.map(input => createImageBitmap(input)));
+
+    if (this.images.length === 0) {
+      throw new Error('The image sequence is empty.');
+    }
+    this.element.width = this.images[0].width;
+    this.element.height = this.images[0].height;
+
+    await this.step(true);
+    if (!this.stepMode) {
+      this.schedule();
+    }
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onFrame = null;
+    this.images.forEach(image => image.close());
+    this.images = [];
+  }
+
+  pause() {
+    this.paused = true;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    if (!this.stepMode && this.onFrame) {
+      this.schedule();
+    }
+  }
+
+  async step(force = false) {
+    if ((!this.stepMode && !force) || !this.onFrame) return false;
+
+    let next = this.frameIndex + 1;
+    if (next >= this.images.length) {
+      if (!this.options.loop) return false;
+      next = 0;
+    }
+
+    this.frameIndex = next;
+    const image = this.images[next];
+    const ctx = this.element.getContext('2d');
+    ctx?.drawImage(image, 0, 0, this.element.width, this.element.height);
+    await this.onFrame((next * 1000) / this.fps);
+    return true;
+  }
+
+  private schedule() {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if ((await this.step(true)) && !this.paused) {
+        this.schedule();
+      }
+    }, 1000 / this.fps);
+  }
+}
+
+/** Any `MediaStream`, e.g. from `canvas.captureStream()` or a remote peer */
+export class MediaStreamSource implements FrameSource {
+  readonly kind = 'stream';
+  readonly stepMode = false;
+  private loop: VideoFrameLoop | null = null;
+
+  constructor(readonly element: HTMLVideoElement, private stream: MediaStream) {}
+
+  async start(onFrame: FrameHandler) {
+    this.element.removeAttribute('src');
+    this.element.srcObject = this.stream;
+    this.element.muted = true;
+    this.loop = new VideoFrameLoop(this.element, onFrame, false);
+    this.loop.start();
+    await this.element.play();
+  }
+
+  stop() {
+    this.loop?.stop();
+    this.loop = null;
+    this.element.pause();
+    this.element.srcObject = null;
+  }
+
+  pause() {
+    this.loop?.stop();
+    this.element.pause();
+  }
+
+  async resume() {
+    if (!this.loop) return;
+    this.loop.start();
+    await this.element.play();
+  }
+
+  async step() {
+    return false;
+  }
+}
+
+/** Picks the right source for files chosen by the user: one video, or a set of images */
+export const createFileSource = (video: HTMLVideoElement, files: File[], options: PlaybackOptions = {}): FrameSource => {
+  const [first] = files;
+  if (!first) {
+    throw new Error('No file selected.');
+  }
+
+  if (files.length === 1 && first.type.startsWith('video/')) {
+    return new VideoFileSource(video, first, options);
+  }
+
+  const images = files
+    .filter(file => file.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  if (images.length === 0) {
+    throw new Error('Select a single video file or one or more images.');
+  }
+  return new ImageSequenceSource(images, options);
+};
@@ -0,0 +1,277 @@
+import { regionStats, type GrayFrame, type PixelRegion } from './frame';
+import { KEYPOINTS, type NormalizedLandmark, type NormalizedRect } from './mediapipe';
+
+export type SpoofSignalName = 'moire' | 'specular' | 'texture' | 'micro-motion' | 'planar-motion';
+
+export interface SpoofSignal {
+  name: SpoofSignalName;
+  // Raw measurement, for debugging and tuning
+  value: number | null;
+  // 0 = looks live, 1 = looks like an attack; null while there is not enough evidence
+  score: number | null;
+  weight: number;
+}
+
+export type SpoofVerdict = 'live' | 'spoof' | 'uncertain';
+
+export interface SpoofAssessment {
+  // Weighted combination of all available signals, null until any signal is available
+  score: number | null;
+  verdict: SpoofVerdict;
+  signals: SpoofSignal[];
+  frames: number;
+}
+
+export interface SpoofAnalyzerOptions {
+  // Frames kept for the motion based cues
+  windowSize?: number;
+  // Smoothing factor for the per-frame image cues
+  alpha?: number;
+  spoofThreshold?: number;
+  liveThreshold?: number;
+  minFrames?: number;
+}
+
+interface MotionSample {
+  // Nose position in barycentric coordinates of the eye/eye/mouth triangle
+  parallax: [number, number];
+  center: [number, number];
+  scale: number;
+}
+
+const DEFAULT_OPTIONS: Required<SpoofAnalyzerOptions> = {
+  windowSize: 45,
+  alpha: 0.1,
+  spoofThreshold: 0.6,
+  liveThreshold: 0.35,
+  minFrames: 15,
+};
+
+const WEIGHTS: Record<SpoofSignalName, number> = {
+  moire: 1,
+  specular: 0.5,
+  texture: 0.75,
+  'micro-motion': 1,
+  'planar-motion': 1.5,
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const lerpScore = (value: number, liveAt: number, spoofAt: number) => clamp01((value - liveAt) / (spoofAt - liveAt));
+
+const std = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+const faceRegion = (frame: GrayFrame, box: NormalizedRect): PixelRegion => {
+  // Inner 70% of the box keeps background and hair out of the statistics
+  const width = box.width * 0.7;
+  const height = box.height * 0.7;
+  const x = Math.max(0, Math.round((box.xCenter - width / 2) * frame.width));
+  const y = Math.max(0, Math.round((box.yCenter - height / 2) * frame.height));
+
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(frame.width - x, Math.round(width * frame.width))),
+    height: Math.max(0, Math.min(frame.height - y, Math.round(height * frame.height))),
+  };
+};
+
+/**
+ * Strength of periodic high-frequency structure, the signature of moiré from
+ * filming a screen. Rows are high-pass filtered and the strongest normalized
+ * autocorrelation at short lags is returned (near 0 for skin, higher for moiré).
+ */
+export const measurePeriodicity = (frame: GrayFrame, region: PixelRegion, minLag = 2, maxLag = 8) => {
+  let best = 0;
+  const correlations = new Array(maxLag + 1).fill(0);
+  let energy = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    const row = frame.data.subarray(y * frame.width + region.x, y * frame.width + region.x + region.width);
+    const highPass = new Float32Array(row.length);
+    for (let x = 1; x < row.length - 1; x++) {
+      highPass[x] = row[x] - (row[x - 1] + row[x + 1]) / 2;
+      energy += highPass[x] * highPass[x];
+    }
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      for (let x = 1; x < highPass.length - 1 - lag; x++) {
+        correlations[lag] += highPass[x] * highPass[x + lag];
+      }
+    }
+  }
+
+  if (energy === 0) return 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    best = Math.max(best, correlations[lag] / energy);
+  }
+  return best;
+};
+
+/** Mean absolute Laplacian relative to brightness; flat prints and re-captures score low */
+export const measureTexture = (frame: GrayFrame, region: PixelRegion) => {
+  let sum = 0;
+  let count = 0;
+
+  for (let y = Math.max(1, region.y); y < Math.min(frame.height - 1, region.y + region.height); y++) {
+    for (let x = Math.max(1, region.x); x < Math.min(frame.width - 1, region.x + region.width); x++) {
+      const i = y * frame.width + x;
+      const laplacian = 4 * frame.data[i] - frame.data[i - 1] - frame.data[i + 1] - frame.data[i - frame.width] - frame.data[i + frame.width];
+      sum += Math.abs(laplacian);
+      count++;
+    }
+  }
+
+  const { mean } = regionStats(frame, region);
+  return count === 0 || mean === 0 ? 0 : sum / count / mean;
+};
+
+/** Share of near-saturated pixels, typical of glare on glossy photos and screens */
+export const measureSpecular = (frame: GrayFrame, region: PixelRegion, threshold = 0.97) => {
+  let bright = 0;
+  let count = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      if (frame.data[y * frame.width + x] >= threshold) bright++;
+      count++;
+    }
+  }
+
+  return count === 0 ? 0 : bright / count;
+};
+
+const barycentric = (p: NormalizedLandmark, a: NormalizedLandmark, b: NormalizedLandmark, c: NormalizedLandmark): [number, number] | null => {
+  const det = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y);
+  if (Math.abs(det) < 1e-9) return null;
+
+  const u = ((b.y - c.y) * (p.x - c.x) + (c.x - b.x) * (p.y - c.y)) / det;
+  const v = ((c.y - a.y) * (p.x - c.x) + (a.x - c.x) * (p.y - c.y)) / det;
+  return [u, v];
+};
+
+/**
+ * Accumulates presentation-attack cues over a session and combines them into
+ * a single spoof score. Image cues (moiré, specular, texture) are smoothed per
+ * frame; motion cues look at a sliding window of landmark positions.
+ */
+export class SpoofAnalyzer {
+  private options: Required<SpoofAnalyzerOptions>;
+  private frames = 0;
+  private moire: number | null = null;
+  private specular: number | null = null;
+  private texture: number | null = null;
+  private motion: MotionSample[] = [];
+
+  constructor(options: SpoofAnalyzerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  reset() {
+    this.frames = 0;
+    this.moire = null;
+    this.specular = null;
+    this.texture = null;
+    this.motion = [];
+  }
+
+  update(frame: GrayFrame | null, landmarks: NormalizedLandmark[], box: NormalizedRect): SpoofAssessment {
+    this.frames++;
+
+    if (frame && box) {
+      const region = faceRegion(frame, box);
+      if (region.width > 8 && region.height > 8) {
+        this.moire = this.smooth(this.moire, measurePeriodicity(frame, region));
+        this.specular = this.smooth(this.specular, measureSpecular(frame, region));
+        this.texture = this.smooth(this.texture, measureTexture(frame, region));
+      }
+    }
+
+    if (landmarks && landmarks.length >= 6) {
+      const rightEye = landmarks[KEYPOINTS.rightEye];
+      const leftEye = landmarks[KEYPOINTS.leftEye];
+      const mouth = landmarks[KEYPOINTS.mouthCenter];
+      const parallax = barycentric(landmarks[KEYPOINTS.noseTip], rightEye, leftEye, mouth);
+
+      if (parallax) {
+        this.motion.push({
+          parallax,
+          center: [(rightEye.x + leftEye.x) / 2, (rightEye.y + leftEye.y) / 2],
+          scale: Math.hypot(leftEye.x - rightEye.x, leftEye.y - rightEye.y),
+        });
+        if (this.motion.length > this.options.windowSize) this.motion.shift();
+      }
+    }
+
+    return this.assess();
+  }
+
+  assess(): SpoofAssessment {
+    const signals: SpoofSignal[] = [
+      this.signal('moire', this.moire, value => lerpScore(value, 0.1, 0.35)),
+      this.signal('specular', this.specular, value => lerpScore(value, 0.01, 0.08)),
+      this.signal('texture', this.texture, value => 1 - lerpScore(value, 0.02, 0.06)),
+      ...this.motionSignals(),
+    ];
+
+    const available = signals.filter(signal => signal.score !== null);
+    const totalWeight = available.reduce((sum, signal) => sum + signal.weight, 0);
+    const score = totalWeight === 0 || this.frames < this.options.minFrames
+      ? null
+      : available.reduce((sum, signal) => sum + (signal.score as number) * signal.weight, 0) / totalWeight;
+
+    let verdict: SpoofVerdict = 'uncertain';
+    if (score !== null && score >= this.options.spoofThreshold) verdict = 'spoof';
+    else if (score !== null && score <= this.options.liveThreshold) verdict = 'live';
+
+    return { score, verdict, signals, frames: this.frames };
+  }
+
+  private motionSignals(): SpoofSignal[] {
+    if (this.motion.length < this.options.minFrames) {
+      return [
+        { name: 'micro-motion', value: null, score: null, weight: WEIGHTS['micro-motion'] },
+        { name: 'planar-motion', value: null, score: null, weight: WEIGHTS['planar-motion'] },
+      ];
+    }
+
+    const meanScale = this.motion.reduce((sum, sample) => sum + sample.scale, 0) / this.motion.length;
+    // Head movement relative to face size: translation of the eye center plus change in scale
+    const movement = (
+      std(this.motion.map(sample => sample.center[0])) +
+      std(this.motion.map(sample => sample.center[1])) +
+      std(this.motion.map(sample => sample.scale))
+    ) / meanScale;
+    // Change in face geometry that an affine transform of a flat picture cannot produce
+    const parallax = std(this.motion.map(sample => sample.parallax[0])) + std(this.motion.map(sample => sample.parallax[1]));
+
+    // A completely still face suggests a photo on a stand
+    const microMotion: SpoofSignal = {
+      name: 'micro-motion',
+      value: movement,
+      score: 1 - lerpScore(movement, 0.002, 0.01),
+      weight: WEIGHTS['micro-motion'],
+    };
+
+    // Only meaningful once the face actually moves: a moving flat picture keeps its geometry
+    const planarMotion: SpoofSignal = {
+      name: 'planar-motion',
+      value: movement > 0.02 ? parallax / movement : null,
+      score: movement > 0.02 ? 1 - lerpScore(parallax / movement, 0.05, 0.4) : null,
+      weight: WEIGHTS['planar-motion'],
+    };
+
+    return [microMotion, planarMotion];
+  }
+
+  private signal(name: SpoofSignalName, value: number | null, toScore: (value: number) => number): SpoofSignal {
+    return { name, value, score: value === null ? null : toScore(value), weight: WEIGHTS[name] };
+  }
+
+  private smooth(previous: number | null, value: number) {
+    return previous === null ? value : previous + (value - previous) * this.options.alpha;
+  }
+}
@@ -0,0 +1,23 @@
+// Storage can be unavailable (private mode, disabled cookies, quota) or hold
+// data another version wrote, so reads fall back to null and failed writes are
+// ignored: preferences then simply don't persist.
+
+/** The parsed JSON stored under `key`, or null when there is none or it can't be read */
+export const readStoredJson = (key: string): unknown => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Stores `value` as JSON under `key`; null removes the entry */
+export const writeStoredJson = (key: string, value: unknown) => {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Nothing to do, see above
+  }
+};
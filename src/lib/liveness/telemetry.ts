@@ -0,0 +1,142 @@
+import type { SchedulerMode } from './scheduler';
+
+export interface LatencyStats {
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  mean: number | null;
+  samples: number;
+}
+
+export interface PerformanceMetrics {
+  // Wall-clock time the current source was started (ms since epoch)
+  startedAt: number | null;
+  elapsedMs: number;
+  // Frames per second delivered by the source and processed by the detector, over the last few seconds
+  captureFps: number;
+  inferenceFps: number;
+  // Time from submitting a frame to receiving its detections
+  latency: LatencyStats;
+  framesCaptured: number;
+  framesProcessed: number;
+  // Frames skipped because the detector was still busy with an earlier one
+  droppedFrames: number;
+  // Frames deliberately skipped by the power-saving scheduler
+  throttledFrames: number;
+  // Time from start until the first frame with a face, null until then
+  timeToFirstFaceMs: number | null;
+  detector: 'main-thread' | 'worker' | null;
+  schedulerMode: SchedulerMode | null;
+}
+
+const FPS_WINDOW_MS = 2000;
+const MAX_LATENCY_SAMPLES = 500;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+const countSince = (timestamps: number[], since: number) => {
+  while (timestamps.length > 0 && timestamps[0] < since) timestamps.shift();
+  return timestamps.length;
+};
+
+/**
+ * Collects frame-rate and latency measurements for a run. All times are taken
+ * from `performance.now()`, independent of the source's media timestamps.
+ */
+export class PerformanceMonitor {
+  private startedAt: number | null = null;
+  private startedAtWall: number | null = null;
+  private captures: number[] = [];
+  private completions: number[] = [];
+  private latencies: number[] = [];
+  private framesCaptured = 0;
+  private framesProcessed = 0;
+  private droppedFrames = 0;
+  private throttledFrames = 0;
+  private firstFaceAt: number | null = null;
+
+  start(now = performance.now()) {
+    this.reset();
+    this.startedAt = now;
+    this.startedAtWall = Date.now();
+  }
+
+  reset() {
+    this.startedAt = null;
+    this.startedAtWall = null;
+    this.captures = [];
+    this.completions = [];
+    this.latencies = [];
+    this.framesCaptured = 0;
+    this.framesProcessed = 0;
+    this.droppedFrames = 0;
+    this.throttledFrames = 0;
+    this.firstFaceAt = null;
+  }
+
+  frameCaptured(now = performance.now()) {
+    this.framesCaptured++;
+    this.captures.push(now);
+  }
+
+  frameDropped() {
+    this.droppedFrames++;
+  }
+
+  frameThrottled() {
+    this.throttledFrames++;
+  }
+
+  frameProcessed(latencyMs: number, hasFace: boolean, now = performance.now()) {
+    this.framesProcessed++;
+    this.completions.push(now);
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > MAX_LATENCY_SAMPLES) this.latencies.shift();
+    if (hasFace && this.firstFaceAt === null) this.firstFaceAt = now;
+  }
+
+  snapshot(
+    detector: PerformanceMetrics['detector'],
+    schedulerMode: PerformanceMetrics['schedulerMode'] = null,
+    now = performance.now()
+  ): PerformanceMetrics {
+    const since = now - FPS_WINDOW_MS;
+    // Before the window is full, rate over the time actually observed
+    const windowMs = this.startedAt === null ? FPS_WINDOW_MS : Math.min(FPS_WINDOW_MS, Math.max(1, now - this.startedAt));
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+
+    return {
+      startedAt: this.startedAtWall,
+      elapsedMs: this.startedAt === null ? 0 : now - this.startedAt,
+      captureFps: (countSince(this.captures, since) * 1000) / windowMs,
+      inferenceFps: (countSince(this.completions, since) * 1000) / windowMs,
+      latency: {
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p99: percentile(sorted, 99),
+        mean: sorted.length === 0 ? null : sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        samples: sorted.length,
+      },
+      framesCaptured: this.framesCaptured,
+      framesProcessed: this.framesProcessed,
+      droppedFrames: this.droppedFrames,
+      throttledFrames: this.throttledFrames,
+      timeToFirstFaceMs: this.firstFaceAt === null || this.startedAt === null ? null : this.firstFaceAt - this.startedAt,
+      detector,
+      schedulerMode,
+    };
+  }
+}
+
+/** Metrics plus a description of the device, for comparing hardware */
+export const buildMetricsReport = (metrics: PerformanceMetrics) => ({
+  generatedAt: new Date().toISOString(),
+  device: {
+    userAgent: navigator.userAgent,
+    hardwareConcurrency: navigator.hardwareConcurrency ?? null,
+    deviceMemory: (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? null,
+    screen: { width: screen.width, height: screen.height, pixelRatio: window.devicePixelRatio },
+  },
+  metrics,
+});
@@ -0,0 +1,29 @@
+export type FaceOrientation =
+  | 'straight'
+  | 'left'
+  | 'right'
+  | 'up'
+  | 'down'
+  | 'tilt-left'
+  | 'tilt-right'
+  | 'none';
+
+/**
+ * Head pose in degrees. Positive yaw is the person turning to their left,
+ * positive pitch is looking up and positive roll is tilting towards their
+ * right shoulder.
+ */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+export interface Detection {
+  orientation: FaceOrientation;
+  confidence: number;
+  pose: HeadPose;
+  timestamp: number;
+  // Faces detected in the frame, including the one this detection describes
+  faceCount: number;
+}
@@ -0,0 +1,56 @@
+import type { Challenge } from './challenges';
+import type { LivenessSessionResult } from './result';
+
+// Base URL of the verification API. In development `/api` is proxied to the reference verifier in `server/`.
+export const VERIFICATION_API_URL: string = import.meta.env.VITE_LIVENESS_API_URL ?? '/api/liveness';
+
+export interface IssuedChallenge {
+  sessionId: string;
+  challenges: Challenge[];
+  expiresAt: number;
+}
+
+export interface VerificationToken {
+  token: string;
+  expiresAt: number;
+}
+
+export class VerificationError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+const post = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${VERIFICATION_API_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    throw new VerificationError(`Verification service unreachable: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new VerificationError(payload?.error ?? `Verification service responded with ${response.status}`, response.status);
+  }
+  return payload as T;
+};
+
+export interface ChallengeRequest {
+  // Whether the client can track facial expressions, i.e. runs the Face Mesh backend
+  expressions?: boolean;
+}
+
+/** Asks the verifier for a fresh session with a server-chosen challenge sequence */
+export const requestChallenge = (request: ChallengeRequest = {}, signal?: AbortSignal) =>
+  post<IssuedChallenge>('/sessions', request, signal);
+
+/** Submits a completed session and returns the signed token a relying party can check */
+export const requestVerificationToken = (result: LivenessSessionResult, signal?: AbortSignal) =>
+  post<VerificationToken>('/verify', result, signal);
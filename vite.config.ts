@@ -1,17 +1,118 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+const BASE = '/face-sense-check-now/';
+
+// MediaPipe packages whose model and WASM files are served from `${BASE}mediapipe/<package>/`
+const MEDIAPIPE_ASSETS: Record<string, string> = {
+  face_detection: 'face_detection.js',
+  face_mesh: 'face_mesh.js',
+};
+
+// Closure-compiled MediaPipe bundles and the global name each one registers
+const MEDIAPIPE_EXPORTS: Record<string, string> = {
+  'face_detection.js': 'FaceDetection',
+  'face_mesh.js': 'FaceMesh',
+};
+
+const appendMediapipeExport = (code: string, name: string) =>
+  `${code}\nexports.${name} = exports.${name} || globalThis.${name};\n`;
+
+const mediapipeDir = (pkg: string) => path.resolve(__dirname, 'node_modules/@mediapipe', pkg);
+
+const mediapipeAssetFiles = (pkg: string) =>
+  fs.readdirSync(mediapipeDir(pkg)).filter(file =>
+    file !== MEDIAPIPE_ASSETS[pkg] && !['package.json', 'index.d.ts', 'README.md'].includes(file)
+  );
+
+/**
+ * The MediaPipe solutions attach their classes to the global object instead of
+ * exporting them, which breaks named imports once they are bundled. Append an
+ * explicit CommonJS export so `import { FaceDetection } from ...` works, both
+ * in the Rollup build and in the dev server's esbuild dependency pre-bundling.
+ */
+const mediapipeExports = (): Plugin => ({
+  name: 'mediapipe-exports',
+  config: () => ({
+    optimizeDeps: {
+      esbuildOptions: {
+        plugins: [
+          {
+            name: 'mediapipe-exports',
+            setup(build) {
+              build.onLoad({ filter: /@mediapipe[\\/][^\\/]+[\\/][^\\/]+\.js$/ }, args => {
+                const name = MEDIAPIPE_EXPORTS[path.basename(args.path)];
+                if (!name) return null;
+                return { contents: appendMediapipeExport(fs.readFileSync(args.path, 'utf-8'), name), loader: 'js' };
+              });
+            },
+          },
+        ],
+      },
+    },
+  }),
+  transform(code, id) {
+    const name = MEDIAPIPE_EXPORTS[path.basename(id.split('?')[0])];
+    if (!name || id.startsWith('\0') || !id.includes('@mediapipe')) return null;
+
+    return { code: appendMediapipeExport(code, name), map: null };
+  },
+});
+
+/** Serves MediaPipe models and WASM from the app's own base path in dev and copies them into the build */
+const mediapipeAssets = (): Plugin => ({
+  name: 'mediapipe-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const match = req.url?.match(new RegExp(`^${BASE}mediapipe/([^/]+)/([^/?]+)`));
+      const pkg = match?.[1];
+      if (!pkg || !(pkg in MEDIAPIPE_ASSETS) || !mediapipeAssetFiles(pkg).includes(match[2])) {
+        return next();
+      }
+
+      const file = path.join(mediapipeDir(pkg), match[2]);
+      if (file.endsWith('.wasm')) res.setHeader('Content-Type', 'application/wasm');
+      else if (file.endsWith('.js')) res.setHeader('Content-Type', 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.keys(MEDIAPIPE_ASSETS).forEach(pkg => {
+      mediapipeAssetFiles(pkg).forEach(file => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `mediapipe/${pkg}/${file}`,
+          source: fs.readFileSync(path.join(mediapipeDir(pkg), file)),
+        });
+      });
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
-  base: '/face-sense-check-now/',
+  base: BASE,
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Reference verifier from server/verifier.mjs (`npm run verifier`)
+      '/api': 'http://localhost:8787',
+    },
+  },
+  worker: {
+    // A classic script, where MediaPipe can load its WASM glue with importScripts
+    format: 'iife',
+    // The detection worker imports the MediaPipe bundle too; config.plugins only reach workers in dev
+    plugins: () => [mediapipeExports()],
   },
   plugins: [
     react(),
+    mediapipeExports(),
+    mediapipeAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
@@ -20,9 +121,4 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
-  build: {
-    rollupOptions: {
-      external: ['@mediapipe/face_detection', '@mediapipe/camera_utils']
-    }
-  }
 }));